@@ -1,6 +1,22 @@
 import React from 'react';
 import './PluginStateDemo.css';
-import { Services } from './types';
+import { AutoSaveController, AutoSaveStatus } from './services/AutoSaveController';
+import { PluginStateCancelledError, PluginStateConflictError, PluginStateSaveQueuedError } from './services/errors';
+import { createLoggingMiddleware, createSizeLimitMiddleware, createTimestampMiddleware } from './services/stateMiddleware';
+import { StateHistory, StateHistoryEntry } from './services/StateHistory';
+import { deepMerge } from './services/statePatch';
+import {
+  DeepPartial,
+  ExternalStateChange,
+  PluginStateConfig,
+  PluginStateService,
+  Services,
+  StateCheckpoint,
+  StateDiffEntry,
+  StateFieldError,
+  StateImportPreview,
+  StateSizeInfo
+} from './types';
 
 interface DemoData {
   userInput: string;
@@ -12,6 +28,72 @@ interface DemoData {
   timestamp: string;
 }
 
+// Shape of the state persisted through the PluginState service
+interface PersistedDemoState {
+  demoData: DemoData;
+  saveCount: number;
+  restoreCount: number;
+}
+
+// Demo data fields the conflict dialog lets the user pick between
+type ConflictField = 'userInput' | 'counter' | 'preferences';
+
+const CONFLICT_FIELDS: { field: ConflictField; label: string }[] = [
+  { field: 'userInput', label: 'Text Input' },
+  { field: 'counter', label: 'Counter' },
+  { field: 'preferences', label: 'Preferences' }
+];
+
+// Manual save rejected because the stored state changed since the on-screen data was loaded
+interface SaveConflict {
+  mine: DemoData;
+  // Stored state that won (null when it was cleared)
+  theirs: PersistedDemoState | null;
+  // Revision of the stored state, expected by the save that resolves the conflict
+  revision: number;
+  // Per-field choice used by "Merge"
+  choices: { [field in ConflictField]: 'mine' | 'theirs' };
+}
+
+// ISO 8601 timestamp as produced by Date.prototype.toISOString
+const ISO_TIMESTAMP_PATTERN = '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?Z$';
+
+// Schema error in the State Viewer editor, with the (0-based) line of the field it concerns
+interface EditorFieldError {
+  line: number;
+  error: StateFieldError;
+}
+
+/**
+ * Find the line of pretty-printed JSON holding a dot-separated path, or of its deepest parent
+ * present in the text (the first line for the root)
+ */
+const findJsonPathLine = (lines: string[], path: string): number => {
+  let line = 0;
+  if (path === '') {
+    return line;
+  }
+
+  for (const segment of path.split('.')) {
+    const key = `${JSON.stringify(segment)}:`;
+    let found = -1;
+    for (let i = line; i < lines.length; i++) {
+      if (lines[i].trim().indexOf(key) === 0) {
+        found = i;
+        break;
+      }
+    }
+    if (found === -1) {
+      return line;
+    }
+    line = found;
+  }
+  return line;
+};
+
+// How long an unedited text draft is kept (one week)
+const USER_INPUT_TTL = 7 * 24 * 60 * 60 * 1000;
+
 interface PluginStateDemoProps {
   moduleId?: string;
   pluginId?: string;
@@ -33,6 +115,8 @@ interface ErrorInfo {
   timestamp: string;
   operation?: string;
   stack?: string;
+  // Network failures can be retried (failed saves are queued by the service)
+  retryable?: boolean;
 }
 
 interface PluginStateDemoState {
@@ -51,6 +135,10 @@ interface PluginStateDemoState {
   lastRestoreTime: string | null;
   saveCount: number;
   restoreCount: number;
+  // Raw and stored size of the saved state (null when nothing is saved)
+  stateSize: StateSizeInfo | null;
+  // Saves queued by the service after a failure, waiting to be retried
+  pendingSaveCount: number;
   
   // Debug info
   debugLogs: string[];
@@ -60,6 +148,34 @@ interface PluginStateDemoState {
   
   // Error handling demo
   showErrorDetails: boolean;
+
+  // Cross-tab sync: latest change saved by another tab, awaiting a decision
+  externalChange: ExternalStateChange<PersistedDemoState> | null;
+
+  // Save conflict awaiting a decision in the conflict dialog
+  conflict: SaveConflict | null;
+
+  // Latest auto-save status (null before the first auto-save)
+  autoSaveStatus: AutoSaveStatus | null;
+
+  // Undo/redo history of demo data
+  historyEntries: StateHistoryEntry<DemoData>[];
+  historyIndex: number;
+
+  // Named checkpoints
+  checkpoints: StateCheckpoint[];
+  checkpointName: string;
+  renamingCheckpointId: string | null;
+  renameValue: string;
+
+  // Export file read for import, awaiting confirmation
+  importPreview: StateImportPreview<PersistedDemoState> | null;
+  importFileName: string;
+
+  // State Viewer editor: edited JSON (null while it shows the current state) and its problems
+  stateEditorText: string | null;
+  stateEditorParseError: string | null;
+  stateEditorErrors: EditorFieldError[];
 }
 
 /**
@@ -70,21 +186,29 @@ interface PluginStateDemoState {
  */
 class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateDemoState> {
   private pluginStateUnsubscribers: (() => void)[] = [];
-  private autoSaveTimeout: NodeJS.Timeout | null = null;
+  // Saves edits 1 second after typing stops, or every 5 seconds during continuous edits
+  private autoSaveController = new AutoSaveController(() => this.autoSave(), { debounceMs: 1000, maxWaitMs: 5000 });
+  private autoSaveUnsubscribe: (() => void) | null = null;
+  private history = new StateHistory<DemoData>({ maxEntries: 50 });
+  private historyUnsubscribe: (() => void) | null = null;
+  // Edits made since the last save, sent to the service as a partial update by auto-save
+  private pendingChanges: DeepPartial<DemoData> = {};
+  // Revision of the stored state the on-screen data is based on, checked by manual saves
+  private baseRevision: number | null = null;
+  // Last error shown through the service's onError event, so catch blocks don't show it twice
+  private lastReportedError: unknown = null;
+  private stateEditor: HTMLTextAreaElement | null = null;
+  // The only text field whose edits are recorded in the undo history
+  private userInputField: HTMLInputElement | null = null;
 
   constructor(props: PluginStateDemoProps) {
     super(props);
+
+    const initialDemoData = this.createDefaultDemoData();
+    this.history.reset(initialDemoData);
     
     this.state = {
-      demoData: {
-        userInput: '',
-        counter: 0,
-        preferences: {
-          autoSave: true,
-          showDebugInfo: true
-        },
-        timestamp: new Date().toISOString()
-      },
+      demoData: initialDemoData,
       isLoading: false,
       error: '',
       errorInfo: null,
@@ -94,35 +218,100 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
       lastRestoreTime: null,
       saveCount: 0,
       restoreCount: 0,
+      stateSize: null,
+      pendingSaveCount: 0,
       debugLogs: [],
       activeTab: 'overview',
-      showErrorDetails: false
+      showErrorDetails: false,
+      externalChange: null,
+      conflict: null,
+      autoSaveStatus: null,
+      historyEntries: this.history.getEntries(),
+      historyIndex: this.history.currentIndex,
+      checkpoints: [],
+      checkpointName: '',
+      renamingCheckpointId: null,
+      renameValue: '',
+      importPreview: null,
+      importFileName: '',
+      stateEditorText: null,
+      stateEditorParseError: null,
+      stateEditorErrors: []
     };
   }
 
   async componentDidMount() {
+    this.autoSaveUnsubscribe = this.autoSaveController.subscribe(event => {
+      if (event.status === 'saving') {
+        this.addDebugLog('Auto-saving after user input...');
+      } else if (event.error instanceof PluginStateConflictError) {
+        this.openConflictDialog(event.error);
+      } else if (event.status === 'failed') {
+        this.reportError(event.error, 'autoSave');
+      }
+      this.setState({ autoSaveStatus: event.status });
+    });
+    this.autoSaveController.start();
+
+    this.historyUnsubscribe = this.history.subscribe(() => {
+      this.setState({
+        historyEntries: this.history.getEntries(),
+        historyIndex: this.history.currentIndex
+      });
+    });
+
     try {
       this.addDebugLog('Starting component initialization...');
       await this.configurePluginState();
-      await this.restoreState();
+      await this.restoreState(true);
+      await this.loadCheckpoints();
       this.setState({ isInitializing: false });
       this.addDebugLog('Component initialized successfully');
     } catch (error) {
-      this.handleError(error, 'componentDidMount');
+      this.reportError(error, 'componentDidMount');
       this.setState({ isInitializing: false });
     }
   }
 
   componentWillUnmount() {
-    // Clean up auto-save timeout
-    if (this.autoSaveTimeout) {
-      clearTimeout(this.autoSaveTimeout);
-      this.autoSaveTimeout = null;
+    // Save edits still waiting for auto-save instead of dropping them
+    if (this.autoSaveUnsubscribe) {
+      this.autoSaveUnsubscribe();
+      this.autoSaveUnsubscribe = null;
+    }
+    this.autoSaveController.flush();
+    this.autoSaveController.dispose();
+
+    if (this.historyUnsubscribe) {
+      this.historyUnsubscribe();
+      this.historyUnsubscribe = null;
     }
     
     this.cleanupServices();
   }
 
+  /**
+   * Build the initial demo data used on first load and after a clear
+   */
+  private createDefaultDemoData(): DemoData {
+    return {
+      userInput: '',
+      counter: 0,
+      preferences: {
+        autoSave: true,
+        showDebugInfo: true
+      },
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * PluginState service typed by the persisted state shape
+   */
+  private get pluginState(): PluginStateService<PersistedDemoState> {
+    return this.props.services.pluginState;
+  }
+
   private addDebugLog(message: string) {
     const timestamp = new Date().toLocaleTimeString();
     const logEntry = `[${timestamp}] ${message}`;
@@ -136,7 +325,11 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
    * Enhanced error handling utility
    * Demonstrates best practices for error categorization and logging
    */
-  private handleError(error: any, operation: string): ErrorInfo {
+  private handleError(
+    error: any,
+    operation: string,
+    retryable: boolean = error instanceof PluginStateSaveQueuedError
+  ): ErrorInfo {
     let errorType: ErrorInfo['type'] = 'unknown';
     let message = 'An unexpected error occurred';
     let details = '';
@@ -147,8 +340,11 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
       message = error.message;
       stack = error.stack || '';
       
-      // Categorize based on error message patterns
-      if (message.includes('Service not available') || message.includes('not configured')) {
+      // Saves queued for retry are network errors whatever their message says; other errors
+      // are categorized based on message patterns
+      if (retryable) {
+        errorType = 'network';
+      } else if (message.includes('Service not available') || message.includes('not configured')) {
         errorType = 'service';
       } else if (message.includes('validation') || message.includes('invalid')) {
         errorType = 'validation';
@@ -168,7 +364,8 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
       details,
       timestamp: new Date().toISOString(),
       operation,
-      stack
+      stack,
+      retryable
     };
 
     // Log error for debugging
@@ -185,6 +382,26 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
     return errorInfo;
   }
 
+  /**
+   * Handle an error caught by an operation of the demo
+   *
+   * Failures of service operations are already shown by the onError hook, so only errors raised
+   * by the demo itself go through handleError here. Saves cancelled by a beforeSave hook are
+   * logged rather than shown as errors.
+   */
+  private reportError(error: unknown, operation: string): void {
+    if (error === this.lastReportedError) {
+      this.setState({ isLoading: false });
+      return;
+    }
+    if (error instanceof PluginStateCancelledError) {
+      this.addDebugLog(`${operation} skipped: ${error.message}`);
+      this.setState({ isLoading: false });
+      return;
+    }
+    this.handleError(error, operation);
+  }
+
   /**
    * Clear error state
    */
@@ -197,6 +414,20 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
     this.addDebugLog('Error cleared by user');
   };
 
+  /**
+   * Retry the saves queued after a network failure without waiting for the next backoff
+   */
+  private retryPendingSaves = async () => {
+    try {
+      this.addDebugLog(`Retrying ${this.pluginState.getPendingSaveCount()} pending save(s)...`);
+      await this.pluginState.retryPendingSaves();
+      this.addDebugLog('Pending saves written');
+      this.clearError();
+    } catch (error) {
+      this.reportError(error, 'retryPendingSaves');
+    }
+  };
+
   /**
    * Toggle error details visibility
    */
@@ -206,31 +437,6 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
     }));
   };
 
-  /**
-   * Validate demo data before operations
-   */
-  private validateDemoData(data: DemoData): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
-
-    // Example validation rules
-    if (data.userInput.length > 1000) {
-      errors.push('User input exceeds maximum length of 1000 characters');
-    }
-
-    if (data.counter < -1000 || data.counter > 1000) {
-      errors.push('Counter value must be between -1000 and 1000');
-    }
-
-    if (!data.timestamp || isNaN(Date.parse(data.timestamp))) {
-      errors.push('Invalid timestamp format');
-    }
-
-    return {
-      isValid: errors.length === 0,
-      errors
-    };
-  }
-
   /**
    * Configure the PluginState service bridge with comprehensive error handling
    */
@@ -249,61 +455,182 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
 
       this.addDebugLog('Configuring PluginState service...');
 
-      // Configure the plugin state service with validation and error handling
-      services.pluginState.configure({
-        pluginId: 'ServiceExample_PluginState',
-        stateStrategy: 'session',
+      // Configure the plugin state service; the schema is type-checked against PersistedDemoState
+      const stateConfig: PluginStateConfig<PersistedDemoState> = {
+        // Each module instance on a page keeps its own state
+        pluginId: this.props.pluginId || 'ServiceExample_PluginState',
+        moduleId: this.props.moduleId,
+        instanceId: this.props.instanceId,
+        // Persistent state survives the browser being closed and is kept in sync across tabs
+        stateStrategy: 'persistent',
         preserveKeys: ['demoData', 'saveCount', 'restoreCount'],
         stateSchema: {
           demoData: {
             type: 'object',
             required: false,
-            default: {
-              userInput: '',
-              counter: 0,
+            properties: {
+              // Drafts are dropped a week after their last edit and come back as ''
+              userInput: { type: 'string', required: true, maxLength: 1000, default: '', ttl: USER_INPUT_TTL },
+              counter: { type: 'number', required: true, min: -1000, max: 1000 },
               preferences: {
-                autoSave: true,
-                showDebugInfo: true
+                type: 'object',
+                required: true,
+                properties: {
+                  autoSave: { type: 'boolean', required: true, default: true },
+                  showDebugInfo: { type: 'boolean', required: true, default: true }
+                }
               },
-              timestamp: new Date().toISOString()
-            }
+              timestamp: { type: 'string', required: true, pattern: ISO_TIMESTAMP_PATTERN }
+            },
+            default: this.createDefaultDemoData()
           },
           saveCount: { type: 'number', required: false, default: 0 },
           restoreCount: { type: 'number', required: false, default: 0 }
         },
-        maxStateSize: 10240 // 10KB
-      });
+        maxStateSize: 10240, // 10KB, measured after compression
+        compression: true,
+        // Bump when DemoData changes shape and add a migration from the previous version
+        schemaVersion: 1,
+        migrations: []
+      };
+      this.pluginState.configure(stateConfig);
 
       this.addDebugLog('Service configuration applied successfully');
 
       // Set up lifecycle hooks with error handling
       try {
-        const onSaveUnsubscribe = services.pluginState.onSave((state: any) => {
+        // Every failed service operation is reported here (conflicts open the conflict dialog instead)
+        const onErrorUnsubscribe = this.pluginState.onError((event) => {
+          if (event.error instanceof PluginStateConflictError) {
+            return;
+          }
+          this.lastReportedError = event.error;
+          this.handleError(event.error, event.operation, event.retryable);
+        });
+
+        const onValidationFailedUnsubscribe = this.pluginState.onValidationFailed((failure) => {
+          failure.errors.forEach(fieldError => {
+            this.addDebugLog(`Invalid ${fieldError.path || 'state'} in ${failure.operation}: ${fieldError.message}`);
+          });
+        });
+
+        // Keep the counter inside the schema's range instead of failing the save
+        const beforeSaveUnsubscribe = this.pluginState.beforeSave((state) => {
+          const counter = state.demoData ? state.demoData.counter : undefined;
+          if (typeof counter !== 'number') {
+            return;
+          }
+          const clamped = Math.max(-1000, Math.min(1000, counter));
+          if (clamped === counter) {
+            return;
+          }
+          this.addDebugLog(`Counter ${counter} clamped to ${clamped} before saving`);
+          return { ...state, demoData: { ...state.demoData, counter: clamped } };
+        });
+
+        const onSaveUnsubscribe = this.pluginState.onSave((state, changedPaths) => {
           try {
-            this.addDebugLog(`State saved: ${JSON.stringify(state).substring(0, 100)}...`);
+            this.addDebugLog(`State saved, changed: ${changedPaths.length > 0 ? changedPaths.join(', ') : 'nothing'}`);
+            this.refreshStateSize();
+            // Show the counter as saved when the beforeSave hook clamped the one on screen
+            const counter = state.demoData ? state.demoData.counter : undefined;
+            if (typeof counter === 'number' && Math.abs(this.state.demoData.counter) > 1000) {
+              this.setState(prev => ({ demoData: { ...prev.demoData, counter } }));
+            }
           } catch (error) {
             console.warn('Error in onSave callback:', error);
           }
         });
 
-        const onRestoreUnsubscribe = services.pluginState.onRestore((state: any) => {
+        const onRestoreUnsubscribe = this.pluginState.onRestore((state) => {
           try {
             this.addDebugLog(`State restored: ${JSON.stringify(state).substring(0, 100)}...`);
+            this.refreshStateSize();
           } catch (error) {
             console.warn('Error in onRestore callback:', error);
           }
         });
 
-        const onClearUnsubscribe = services.pluginState.onClear(() => {
+        const onClearUnsubscribe = this.pluginState.onClear(() => {
           try {
             this.addDebugLog('State cleared');
+            this.setState({ stateSize: null });
           } catch (error) {
             console.warn('Error in onClear callback:', error);
           }
         });
 
+        const onExternalChangeUnsubscribe = this.pluginState.onExternalChange((change) => {
+          try {
+            this.addDebugLog(`State ${change.type === 'save' ? 'saved' : 'cleared'} in another tab`);
+            this.setState({ externalChange: change });
+          } catch (error) {
+            console.warn('Error in onExternalChange callback:', error);
+          }
+        });
+
+        const onExpireUnsubscribe = this.pluginState.onExpire((expiredPaths) => {
+          try {
+            this.addDebugLog(`Expired and reset to defaults: ${expiredPaths.join(', ')}`);
+          } catch (error) {
+            console.warn('Error in onExpire callback:', error);
+          }
+        });
+
+        const onPendingSavesChangeUnsubscribe = this.pluginState.onPendingSavesChange((count) => {
+          try {
+            if (count === 0 && this.state.pendingSaveCount > 0) {
+              this.addDebugLog('Queued saves written to storage');
+              this.refreshStateSize();
+            } else if (count > 0) {
+              this.addDebugLog(`${count} save(s) queued for retry`);
+            }
+            this.setState({ pendingSaveCount: count });
+          } catch (error) {
+            console.warn('Error in onPendingSavesChange callback:', error);
+          }
+        });
+
+        // Every save is stamped, checked against a raw size limit and logged; the size limit runs
+        // after the stamp so it measures what is saved, and logging runs last
+        const middlewareUnsubscribers = [
+          this.pluginState.use(createTimestampMiddleware('demoData.timestamp')),
+          this.pluginState.use(createSizeLimitMiddleware(64 * 1024)),
+          this.pluginState.use(createLoggingMiddleware(message => this.addDebugLog(message)))
+        ];
+
+        // Path subscriptions fire only when their slice of the state changes
+        const autoSavePreferenceUnsubscribe = this.pluginState.subscribe('demoData.preferences.autoSave', (next, previous) => {
+          this.addDebugLog(`Auto-save preference persisted: ${previous} → ${next}`);
+        });
+
+        const counterUnsubscribe = this.pluginState.subscribe('demoData.counter', (next, previous) => {
+          this.addDebugLog(`Counter persisted: ${previous} → ${next}`);
+        });
+
+        // Show the time stamped on the last save or restore
+        const timestampUnsubscribe = this.pluginState.subscribe('demoData.timestamp', (next) => {
+          if (typeof next === 'string') {
+            this.setState(prevState => ({ demoData: { ...prevState.demoData, timestamp: next } }));
+          }
+        });
+
         // Store unsubscribers for cleanup
-        this.pluginStateUnsubscribers.push(onSaveUnsubscribe, onRestoreUnsubscribe, onClearUnsubscribe);
+        this.pluginStateUnsubscribers.push(
+          onErrorUnsubscribe,
+          onValidationFailedUnsubscribe,
+          beforeSaveUnsubscribe,
+          onSaveUnsubscribe,
+          onRestoreUnsubscribe,
+          onClearUnsubscribe,
+          onExternalChangeUnsubscribe,
+          onExpireUnsubscribe,
+          onPendingSavesChangeUnsubscribe,
+          ...middlewareUnsubscribers,
+          autoSavePreferenceUnsubscribe,
+          counterUnsubscribe,
+          timestampUnsubscribe
+        );
         this.addDebugLog('Lifecycle hooks registered successfully');
 
       } catch (error) {
@@ -312,7 +639,7 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
         // Don't throw here - partial configuration is acceptable
       }
 
-      this.setState({ isStateConfigured: true });
+      this.setState({ isStateConfigured: true, pendingSaveCount: this.pluginState.getPendingSaveCount() });
       this.addDebugLog('PluginState service configured successfully');
 
     } catch (error) {
@@ -340,6 +667,7 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
 
   /**
    * Save current state with validation and comprehensive error handling
+   * (rejected with a conflict when another save changed the stored state since it was loaded)
    */
   private async saveState(): Promise<void> {
     const { services } = this.props;
@@ -357,29 +685,25 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
         throw new Error('PluginState service not available for save operation');
       }
 
-      // Validate demo data before saving
-      const validation = this.validateDemoData(this.state.demoData);
-      if (!validation.isValid) {
-        throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
-      }
-
       // Prepare state to save
-      const stateToSave = {
+      const stateToSave: PersistedDemoState = {
         demoData: this.state.demoData,
         saveCount: this.state.saveCount + 1,
         restoreCount: this.state.restoreCount
       };
 
-      // Check state size (demonstration of size validation)
-      const stateSize = JSON.stringify(stateToSave).length;
-      if (stateSize > 10240) { // 10KB limit
-        throw new Error(`State size (${stateSize} bytes) exceeds maximum allowed size (10240 bytes)`);
-      }
+      // The service validates the state against the schema after the beforeSave hooks, which may
+      // still repair it (the counter is clamped there), so it is not checked here up front
 
-      this.addDebugLog(`Saving state (${stateSize} bytes)...`);
+      // The service enforces maxStateSize against the compressed size
+      this.addDebugLog(`Saving state (${JSON.stringify(stateToSave).length} bytes before compression)...`);
 
       // Attempt to save state
-      await services.pluginState.saveState(stateToSave);
+      await this.pluginState.saveState(stateToSave, {
+        expectedRevision: this.baseRevision !== null ? this.baseRevision : undefined
+      });
+      this.discardPendingChanges();
+      this.baseRevision = this.pluginState.getRevision();
       
       // Update component state on successful save
       this.setState({
@@ -391,14 +715,31 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
       this.addDebugLog('State saved successfully');
 
     } catch (error) {
-      this.handleError(error, 'saveState');
+      if (error instanceof PluginStateConflictError) {
+        this.openConflictDialog(error);
+        return;
+      }
+      this.reportError(error, 'saveState');
+    }
+  }
+
+  /**
+   * Read the raw and stored size of the saved state for the State Viewer
+   */
+  private async refreshStateSize(): Promise<void> {
+    try {
+      const stateSize = await this.pluginState.getStateSize();
+      this.setState({ stateSize });
+    } catch (error) {
+      console.warn('Failed to read state size:', error);
     }
   }
 
   /**
    * Restore state from storage with enhanced error handling
+   * (the initial restore on mount becomes the start of the undo history)
    */
-  private async restoreState(): Promise<void> {
+  private async restoreState(initial: boolean = false): Promise<void> {
     const { services } = this.props;
     
     try {
@@ -415,16 +756,23 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
       }
 
       // Attempt to restore state (service will handle initialization internally)
-      const restoredState = await services.pluginState.getState();
+      const restoredState = await this.pluginState.getState();
+      this.baseRevision = this.pluginState.getRevision();
       
       if (restoredState) {
+        this.discardPendingChanges();
         this.setState({
-          demoData: restoredState.demoData || this.state.demoData,
-          saveCount: restoredState.saveCount || 0,
-          restoreCount: (restoredState.restoreCount || 0) + 1,
+          demoData: restoredState.demoData,
+          saveCount: restoredState.saveCount,
+          restoreCount: restoredState.restoreCount + 1,
           lastRestoreTime: new Date().toLocaleTimeString(),
           isLoading: false
         });
+        if (initial) {
+          this.history.reset(restoredState.demoData, 'Restored on load');
+        } else {
+          this.history.record(restoredState.demoData, 'Restore state');
+        }
         this.addDebugLog('State restored successfully');
       } else {
         this.setState({ isLoading: false });
@@ -432,7 +780,7 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
       }
 
     } catch (error) {
-      this.handleError(error, 'restoreState');
+      this.reportError(error, 'restoreState');
     }
   }
 
@@ -454,86 +802,526 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
       }
 
       // Attempt to clear state
-      await services.pluginState.clearState();
+      await this.pluginState.clearState();
+      this.baseRevision = this.pluginState.getRevision();
       
-      // Reset to default state on successful clear
+      // Reset to default state on successful clear (undo brings the previous data back)
+      const clearedDemoData = this.createDefaultDemoData();
+      this.discardPendingChanges();
       this.setState({
-        demoData: {
-          userInput: '',
-          counter: 0,
-          preferences: {
-            autoSave: true,
-            showDebugInfo: true
-          },
-          timestamp: new Date().toISOString()
-        },
+        demoData: clearedDemoData,
         saveCount: 0,
         restoreCount: 0,
         lastSaveTime: null,
         lastRestoreTime: null,
         isLoading: false
       });
+      this.history.record(clearedDemoData, 'Clear state');
       
       this.addDebugLog('State cleared successfully');
 
     } catch (error) {
-      this.handleError(error, 'clearState');
+      this.reportError(error, 'clearState');
+    }
+  }
+
+  /**
+   * Refresh the list of named checkpoints
+   */
+  private async loadCheckpoints(): Promise<void> {
+    try {
+      const checkpoints = await this.pluginState.listCheckpoints();
+      this.setState({ checkpoints });
+    } catch (error) {
+      this.reportError(error, 'listCheckpoints');
+    }
+  }
+
+  /**
+   * Save the on-screen state as a named checkpoint
+   */
+  private createCheckpoint = async () => {
+    const { checkpointName, demoData, saveCount, restoreCount } = this.state;
+
+    try {
+      this.setState({ isLoading: true });
+      const checkpoint = await this.pluginState.createCheckpoint(checkpointName, { demoData, saveCount, restoreCount });
+      this.setState({ checkpointName: '', isLoading: false });
+      this.addDebugLog(`Checkpoint "${checkpoint.name}" created (${checkpoint.size} bytes)`);
+      await this.loadCheckpoints();
+    } catch (error) {
+      this.reportError(error, 'createCheckpoint');
+    }
+  };
+
+  /**
+   * Make a checkpoint the current state
+   */
+  private restoreCheckpoint = async (checkpoint: StateCheckpoint) => {
+    try {
+      this.setState({ isLoading: true });
+      const restoredState = await this.pluginState.restoreCheckpoint(checkpoint.id);
+      this.discardPendingChanges();
+      this.baseRevision = this.pluginState.getRevision();
+      this.setState({
+        demoData: restoredState.demoData,
+        saveCount: restoredState.saveCount,
+        restoreCount: restoredState.restoreCount,
+        lastRestoreTime: new Date().toLocaleTimeString(),
+        isLoading: false
+      });
+      this.history.record(restoredState.demoData, `Restore checkpoint "${checkpoint.name}"`);
+      this.addDebugLog(`Checkpoint "${checkpoint.name}" restored`);
+    } catch (error) {
+      this.reportError(error, 'restoreCheckpoint');
+    }
+  };
+
+  /**
+   * Start editing a checkpoint name
+   */
+  private startRenamingCheckpoint = (checkpoint: StateCheckpoint) => {
+    this.setState({ renamingCheckpointId: checkpoint.id, renameValue: checkpoint.name });
+  };
+
+  /**
+   * Stop editing a checkpoint name without saving it
+   */
+  private cancelRenamingCheckpoint = () => {
+    this.setState({ renamingCheckpointId: null, renameValue: '' });
+  };
+
+  /**
+   * Save the edited checkpoint name
+   */
+  private renameCheckpoint = async () => {
+    const { renamingCheckpointId, renameValue } = this.state;
+    if (!renamingCheckpointId) {
+      return;
+    }
+
+    try {
+      const checkpoint = await this.pluginState.renameCheckpoint(renamingCheckpointId, renameValue);
+      this.setState({ renamingCheckpointId: null, renameValue: '' });
+      this.addDebugLog(`Checkpoint renamed to "${checkpoint.name}"`);
+      await this.loadCheckpoints();
+    } catch (error) {
+      this.reportError(error, 'renameCheckpoint');
+    }
+  };
+
+  /**
+   * Delete a checkpoint
+   */
+  private deleteCheckpoint = async (checkpoint: StateCheckpoint) => {
+    try {
+      await this.pluginState.deleteCheckpoint(checkpoint.id);
+      this.addDebugLog(`Checkpoint "${checkpoint.name}" deleted`);
+      await this.loadCheckpoints();
+    } catch (error) {
+      this.reportError(error, 'deleteCheckpoint');
+    }
+  };
+
+  /**
+   * Download the saved state as a versioned JSON export file
+   */
+  private exportState = async () => {
+    try {
+      const exported = await this.pluginState.exportState();
+      const blob = new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${exported.pluginId}-state-${exported.exportedAt.substring(0, 10)}.json`;
+      // Some browsers only download from links in the document, and after the click returns
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+      this.addDebugLog(`State exported (schema version ${exported.schemaVersion})`);
+    } catch (error) {
+      this.reportError(error, 'exportState');
+    }
+  };
+
+  /**
+   * Read a chosen export file and preview it; nothing changes until the import is confirmed
+   */
+  private selectImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files && e.target.files[0];
+    // Allow picking the same file again
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      const importPreview = await this.pluginState.previewImport(await file.text());
+      this.setState({ importPreview, importFileName: file.name });
+      this.addDebugLog(
+        `Import preview of "${file.name}": ${importPreview.changedPaths.length} field(s) would change` +
+        (importPreview.validation.valid ? '' : `, ${importPreview.validation.errors.length} invalid`)
+      );
+    } catch (error) {
+      this.reportError(error, 'previewImport');
+    }
+  };
+
+  /**
+   * Replace the current state with the previewed import
+   */
+  private confirmImport = async () => {
+    const { importPreview, importFileName } = this.state;
+    if (!importPreview) {
+      return;
+    }
+
+    try {
+      this.setState({ isLoading: true });
+      const importedState = await this.pluginState.importState(importPreview.file);
+      this.discardPendingChanges();
+      this.baseRevision = this.pluginState.getRevision();
+      this.setState({
+        demoData: importedState.demoData,
+        saveCount: importedState.saveCount,
+        restoreCount: importedState.restoreCount,
+        lastRestoreTime: new Date().toLocaleTimeString(),
+        importPreview: null,
+        importFileName: '',
+        isLoading: false
+      });
+      this.history.record(importedState.demoData, `Import "${importFileName}"`);
+      this.addDebugLog(`State imported from "${importFileName}"`);
+    } catch (error) {
+      this.reportError(error, 'importState');
+    }
+  };
+
+  /**
+   * Drop the previewed import
+   */
+  private cancelImport = () => {
+    this.setState({ importPreview: null, importFileName: '' });
+    this.addDebugLog('Import cancelled');
+  };
+
+  /**
+   * The on-screen state in its persisted shape, for comparing it with the last saved state
+   *
+   * Only demoData is edited on screen; saveCount and restoreCount are the demo's own bookkeeping
+   * (the on-screen restoreCount already counts the restore that loaded the state), so they are
+   * taken from the persisted state.
+   */
+  private getComparableState(): PersistedDemoState {
+    const persisted = this.pluginState.getPersistedState() || this.pluginState.sanitizeState({});
+    return { ...persisted, demoData: this.state.demoData };
+  }
+
+  /**
+   * The on-screen state as shown in the State Viewer editor
+   */
+  private getEditorSourceText(): string {
+    const { demoData, saveCount, restoreCount } = this.state;
+    return JSON.stringify({ demoData, saveCount, restoreCount }, null, 2);
+  }
+
+  /**
+   * Parse the editor text and validate it against the stateSchema as the user types
+   */
+  private editStateText = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const text = e.target.value;
+    let parsed: any;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      this.setState({
+        stateEditorText: text,
+        stateEditorParseError: error instanceof Error ? error.message : String(error),
+        stateEditorErrors: []
+      });
+      return;
+    }
+
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      this.setState({ stateEditorText: text, stateEditorParseError: 'The state must be a JSON object', stateEditorErrors: [] });
+      return;
+    }
+
+    // Validate what a save would store, with schema defaults filled in
+    const validation = this.pluginState.validateState(this.pluginState.sanitizeState(parsed));
+    const lines = text.split('\n');
+    this.setState({
+      stateEditorText: text,
+      stateEditorParseError: null,
+      stateEditorErrors: validation.errors.map(error => ({ line: findJsonPathLine(lines, error.path), error }))
+    });
+  };
+
+  /**
+   * Select a line of the editor, to point at the field an error marker belongs to
+   */
+  private focusEditorLine(line: number): void {
+    const editor = this.stateEditor;
+    if (!editor) {
+      return;
+    }
+
+    const lines = editor.value.split('\n');
+    const start = lines.slice(0, line).reduce((offset, text) => offset + text.length + 1, 0);
+    editor.focus();
+    editor.setSelectionRange(start, start + (lines[line] || '').length);
+  }
+
+  /**
+   * Make the edited JSON the on-screen state and save it
+   */
+  private applyStateEdit = () => {
+    const { stateEditorText, stateEditorParseError, stateEditorErrors } = this.state;
+    if (stateEditorText === null || stateEditorParseError || stateEditorErrors.length > 0) {
+      return;
+    }
+
+    const edited = this.pluginState.sanitizeState(JSON.parse(stateEditorText));
+    this.discardPendingChanges();
+    this.setState({
+      demoData: edited.demoData,
+      saveCount: edited.saveCount,
+      restoreCount: edited.restoreCount,
+      stateEditorText: null,
+      stateEditorErrors: []
+    }, () => {
+      this.history.record(edited.demoData, 'Edit in State Viewer');
+      this.addDebugLog('State edited in the State Viewer, saving...');
+      this.saveState();
+    });
+  };
+
+  /**
+   * Drop the edits in the State Viewer editor
+   */
+  private revertStateEdit = () => {
+    this.setState({ stateEditorText: null, stateEditorParseError: null, stateEditorErrors: [] });
+  };
+
+  /**
+   * Replace the on-screen state with the copy saved by another tab
+   */
+  private acceptExternalChange = () => {
+    const { externalChange } = this.state;
+    if (!externalChange) {
+      return;
+    }
+
+    // Edits not yet saved are replaced by the other tab's state
+    this.discardPendingChanges();
+    this.baseRevision = externalChange.revision;
+    if (externalChange.state) {
+      this.setState({
+        demoData: externalChange.state.demoData,
+        saveCount: externalChange.state.saveCount,
+        restoreCount: externalChange.state.restoreCount,
+        externalChange: null
+      });
+      this.history.record(externalChange.state.demoData, 'Reload from another tab');
+    } else {
+      const clearedDemoData = this.createDefaultDemoData();
+      this.setState({
+        demoData: clearedDemoData,
+        saveCount: 0,
+        restoreCount: 0,
+        externalChange: null
+      });
+      this.history.record(clearedDemoData, 'Reload from another tab');
+    }
+    this.addDebugLog('Reloaded state from another tab');
+  };
+
+  /**
+   * Keep the on-screen state and save it over the copy from another tab
+   */
+  private keepLocalState = async () => {
+    const { externalChange } = this.state;
+    if (externalChange) {
+      // Overwriting the other tab's state is a deliberate choice, not a conflict
+      this.baseRevision = externalChange.revision;
     }
+    this.setState({ externalChange: null });
+    this.addDebugLog('Keeping local state over the change from another tab');
+    await this.saveState();
+  };
+
+  /**
+   * Show the conflict dialog for a save rejected by the service
+   */
+  private openConflictDialog(error: PluginStateConflictError) {
+    this.setState({
+      isLoading: false,
+      conflict: {
+        mine: this.state.demoData,
+        theirs: error.currentState,
+        revision: error.actualRevision,
+        choices: { userInput: 'mine', counter: 'mine', preferences: 'mine' }
+      }
+    });
+    this.addDebugLog(
+      `Save conflict: expected revision ${error.expectedRevision}, stored state is at revision ${error.actualRevision}`
+    );
   }
 
   /**
-   * Update demo data with debounced auto-save
+   * Resolve a conflict by saving the on-screen data over the stored state
+   */
+  private keepMineInConflict = async () => {
+    const { conflict } = this.state;
+    if (!conflict) {
+      return;
+    }
+
+    this.baseRevision = conflict.revision;
+    this.setState({ conflict: null });
+    this.addDebugLog('Conflict resolved: keeping my changes');
+    await this.saveState();
+  };
+
+  /**
+   * Resolve a conflict by replacing the on-screen data with the stored state
+   */
+  private takeTheirsInConflict = () => {
+    const { conflict } = this.state;
+    if (!conflict) {
+      return;
+    }
+
+    const theirs = conflict.theirs;
+    const demoData = theirs ? theirs.demoData : this.createDefaultDemoData();
+    this.discardPendingChanges();
+    this.baseRevision = conflict.revision;
+    this.setState({
+      demoData,
+      saveCount: theirs ? theirs.saveCount : 0,
+      restoreCount: theirs ? theirs.restoreCount : 0,
+      conflict: null
+    });
+    this.history.record(demoData, 'Take stored state');
+    this.addDebugLog('Conflict resolved: taking the stored state');
+  };
+
+  /**
+   * Resolve a conflict by saving the fields picked from each side
    */
-  private updateDemoData = (updates: Partial<DemoData>) => {
+  private mergeConflict = () => {
+    const { conflict } = this.state;
+    if (!conflict) {
+      return;
+    }
+
+    const theirs = conflict.theirs ? conflict.theirs.demoData : this.createDefaultDemoData();
+    const pick = (field: ConflictField): DemoData => (conflict.choices[field] === 'theirs' ? theirs : conflict.mine);
+    const merged: DemoData = {
+      userInput: pick('userInput').userInput,
+      counter: pick('counter').counter,
+      preferences: pick('preferences').preferences,
+      timestamp: new Date().toISOString()
+    };
+
+    this.discardPendingChanges();
+    this.baseRevision = conflict.revision;
+    this.setState({ demoData: merged, conflict: null }, () => {
+      this.history.record(merged, 'Merge conflicting changes');
+      this.addDebugLog('Conflict resolved: merging per field');
+      this.saveState();
+    });
+  };
+
+  /**
+   * Pick which side a field comes from when merging a conflict
+   */
+  private setConflictChoice = (field: ConflictField, choice: 'mine' | 'theirs') => {
+    this.setState(prevState => prevState.conflict
+      ? { conflict: { ...prevState.conflict, choices: { ...prevState.conflict.choices, [field]: choice } } }
+      : null
+    );
+  };
+
+  /**
+   * Update demo data with debounced auto-save, recording the change in the undo history
+   */
+  private updateDemoData = (updates: Partial<DemoData>, label: string) => {
+    // demoData.timestamp is stamped by the timestamp middleware when the change is saved
     this.setState(prevState => ({
       demoData: {
         ...prevState.demoData,
-        ...updates,
-        timestamp: new Date().toISOString()
+        ...updates
       }
     }), () => {
+      this.history.record(this.state.demoData, label);
+      this.pendingChanges = deepMerge(this.pendingChanges, updates);
+
       // Auto-save if enabled (with debouncing)
       if (this.state.demoData.preferences.autoSave) {
-        this.debouncedAutoSave();
+        this.autoSaveController.schedule();
       }
     });
   };
 
   /**
-   * Debounced auto-save to prevent excessive saves
+   * Forget the edits waiting for auto-save, once the on-screen data was saved or replaced
    */
-  private debouncedAutoSave = () => {
-    // Clear existing timeout
-    if (this.autoSaveTimeout) {
-      clearTimeout(this.autoSaveTimeout);
-    }
+  private discardPendingChanges(): void {
+    this.pendingChanges = {};
+    this.autoSaveController.cancel();
+  }
 
-    // Set new timeout for auto-save
-    this.autoSaveTimeout = setTimeout(() => {
-      this.addDebugLog('Auto-saving after user input...');
-      this.saveState();
-    }, 1000); // Wait 1 second after last change
-  };
+  /**
+   * Save only the fields edited since the last save as a partial update
+   * (run by the auto-save controller, which reports failures through its status events; like a
+   * manual save, it is rejected with a conflict when another save came in since the last one)
+   */
+  private async autoSave(): Promise<void> {
+    const changes = this.pendingChanges;
+    this.pendingChanges = {};
+
+    try {
+      const saved = await this.pluginState.updateState({
+        demoData: changes,
+        saveCount: this.state.saveCount + 1
+      }, {
+        expectedRevision: this.baseRevision !== null ? this.baseRevision : undefined
+      });
+      this.baseRevision = this.pluginState.getRevision();
+
+      this.setState({
+        lastSaveTime: new Date().toLocaleTimeString(),
+        saveCount: saved.saveCount
+      });
+      this.addDebugLog('Auto-save completed');
+    } catch (error) {
+      // Keep the unsaved edits so the next save includes them
+      this.pendingChanges = deepMerge(changes, this.pendingChanges);
+      throw error;
+    }
+  }
 
   /**
    * Handle text input change
    */
   private handleTextChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    this.updateDemoData({ userInput: e.target.value });
+    this.updateDemoData({ userInput: e.target.value }, 'Edit text');
   };
 
   /**
    * Increment counter
    */
   private incrementCounter = () => {
-    this.updateDemoData({ counter: this.state.demoData.counter + 1 });
+    this.updateDemoData({ counter: this.state.demoData.counter + 1 }, 'Increment counter');
   };
 
   /**
    * Decrement counter
    */
   private decrementCounter = () => {
-    this.updateDemoData({ counter: this.state.demoData.counter - 1 });
+    this.updateDemoData({ counter: this.state.demoData.counter - 1 }, 'Decrement counter');
   };
 
   /**
@@ -545,7 +1333,72 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
         ...this.state.demoData.preferences,
         [key]: value
       }
+    }, `Toggle ${key}`);
+  };
+
+  /**
+   * Apply a snapshot from the undo history without recording it again
+   */
+  private applyHistorySnapshot(demoData: DemoData | null, action: string): void {
+    if (!demoData) {
+      return;
+    }
+
+    // A snapshot can differ from the saved state anywhere, so the next auto-save sends all of it
+    this.pendingChanges = demoData;
+    this.setState({ demoData }, () => {
+      this.addDebugLog(`${action}: now at "${this.history.getEntries()[this.history.currentIndex].label}"`);
+      if (this.state.demoData.preferences.autoSave) {
+        this.autoSaveController.schedule();
+      }
     });
+  }
+
+  /**
+   * Undo the last change to demo data
+   */
+  private undo = () => {
+    this.applyHistorySnapshot(this.history.undo(), 'Undo');
+  };
+
+  /**
+   * Redo the last undone change to demo data
+   */
+  private redo = () => {
+    this.applyHistorySnapshot(this.history.redo(), 'Redo');
+  };
+
+  /**
+   * Jump to a snapshot picked in the History tab
+   */
+  private jumpToHistoryEntry = (index: number) => {
+    this.applyHistorySnapshot(this.history.goTo(index), 'Jump to history entry');
+  };
+
+  /**
+   * Keyboard shortcuts: Ctrl+Z (undo) and Ctrl+Shift+Z (redo), Cmd on macOS
+   */
+  private handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') {
+      return;
+    }
+
+    // Other fields (the State Viewer editor, checkpoint names) keep the browser's own undo;
+    // their text is not part of our history
+    const target = e.target as HTMLElement;
+    const editable = target.isContentEditable || target.tagName === 'TEXTAREA' ||
+      (target.tagName === 'INPUT' && ['checkbox', 'radio', 'button'].indexOf((target as HTMLInputElement).type) === -1);
+    if (editable && target !== this.userInputField) {
+      return;
+    }
+
+    // Our history also covers the text input, so take over the browser's own undo
+    e.preventDefault();
+    if (e.shiftKey) {
+      this.redo();
+    } else {
+      this.undo();
+    }
   };
 
   /**
@@ -595,6 +1448,11 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
           )}
 
           <div className="error-actions">
+            {errorInfo?.retryable && (
+              <button onClick={this.retryPendingSaves} className="primary-button">
+                Retry Now
+              </button>
+            )}
             <button onClick={this.clearError} className="primary-button">
               Clear Error
             </button>
@@ -646,7 +1504,7 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
                 <>
                   <li>Check your internet connection</li>
                   <li>Verify the service endpoints are accessible</li>
-                  <li>Try the operation again after a moment</li>
+                  <li>Failed saves are queued and retried automatically; use Retry Now to try right away</li>
                 </>
               )}
               <li>Check the debug logs for more information</li>
@@ -669,6 +1527,7 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
       { id: 'overview', label: '📊 Overview', icon: '📊' },
       { id: 'demo', label: '🎮 Interactive Demo', icon: '🎮' },
       { id: 'state', label: '📋 State Viewer', icon: '📋' },
+      { id: 'history', label: '🕘 History', icon: '🕘' },
       { id: 'debug', label: '🐛 Debug Logs', icon: '🐛' }
     ];
 
@@ -679,6 +1538,9 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
           <p>{description}</p>
         </div>
 
+        {this.state.externalChange && this.renderExternalChangeBanner(this.state.externalChange)}
+        {this.state.conflict && this.renderConflictDialog(this.state.conflict)}
+
         {/* Tab Navigation */}
         <div className="tab-navigation">
           {tabs.map(tab => (
@@ -699,17 +1561,117 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
           {activeTab === 'overview' && this.renderOverviewTab()}
           {activeTab === 'demo' && this.renderDemoTab()}
           {activeTab === 'state' && this.renderStateTab()}
+          {activeTab === 'history' && this.renderHistoryTab()}
           {activeTab === 'debug' && this.renderDebugTab()}
         </div>
       </div>
     );
   }
 
+  /**
+   * Render banner offering to reload a state saved by another tab
+   */
+  private renderExternalChangeBanner(change: ExternalStateChange<PersistedDemoState>): JSX.Element {
+    return (
+      <div className="external-change-banner" role="alert">
+        <div className="external-change-message">
+          <strong>🔄 State changed in another tab</strong>
+          <span>
+            {change.type === 'save'
+              ? `Another tab saved this plugin's state at ${new Date(change.savedAt).toLocaleTimeString()}.`
+              : 'Another tab cleared this plugin\'s saved state.'}
+          </span>
+        </div>
+        <div className="external-change-actions">
+          <button onClick={this.acceptExternalChange} className="primary-button">
+            Reload
+          </button>
+          <button onClick={this.keepLocalState} className="secondary-button" disabled={this.state.isLoading}>
+            Keep Mine
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  /**
+   * Render dialog resolving a save conflict: keep mine, take theirs, or merge per field
+   */
+  private renderConflictDialog(conflict: SaveConflict): JSX.Element {
+    const theirs = conflict.theirs ? conflict.theirs.demoData : null;
+    const formatValue = (value: any) => (typeof value === 'object' ? JSON.stringify(value) : String(value));
+
+    return (
+      <div className="conflict-dialog" role="alertdialog" aria-labelledby="conflict-dialog-title">
+        <h4 id="conflict-dialog-title">⚔️ Save Conflict</h4>
+        <p>
+          The saved state changed since this data was loaded (now at revision {conflict.revision}
+          {conflict.theirs ? '' : ', cleared'}). Choose which version to keep.
+        </p>
+
+        <table className="conflict-fields">
+          <thead>
+            <tr>
+              <th>Field</th>
+              <th>Mine</th>
+              <th>Theirs</th>
+            </tr>
+          </thead>
+          <tbody>
+            {CONFLICT_FIELDS.map(({ field, label }) => {
+              const mineValue = formatValue(conflict.mine[field]);
+              const theirValue = theirs ? formatValue(theirs[field]) : '(cleared)';
+              return (
+                <tr key={field} className={mineValue !== theirValue ? 'conflict-differs' : undefined}>
+                  <td>{label}</td>
+                  <td>
+                    <label>
+                      <input
+                        type="radio"
+                        name={`conflict-${field}`}
+                        checked={conflict.choices[field] === 'mine'}
+                        onChange={() => this.setConflictChoice(field, 'mine')}
+                      />
+                      <code>{mineValue}</code>
+                    </label>
+                  </td>
+                  <td>
+                    <label>
+                      <input
+                        type="radio"
+                        name={`conflict-${field}`}
+                        checked={conflict.choices[field] === 'theirs'}
+                        onChange={() => this.setConflictChoice(field, 'theirs')}
+                      />
+                      <code>{theirValue}</code>
+                    </label>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <div className="conflict-actions">
+          <button onClick={this.keepMineInConflict} className="primary-button">
+            Keep Mine
+          </button>
+          <button onClick={this.takeTheirsInConflict} className="secondary-button">
+            Take Theirs
+          </button>
+          <button onClick={this.mergeConflict} className="secondary-button">
+            Merge Selected
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   /**
    * Render Overview tab
    */
   private renderOverviewTab(): JSX.Element {
-    const { isStateConfigured, lastSaveTime, lastRestoreTime, saveCount, restoreCount } = this.state;
+    const { isStateConfigured, lastSaveTime, lastRestoreTime, saveCount, restoreCount, pendingSaveCount } = this.state;
 
     return (
       <div className="tab-panel">
@@ -730,6 +1692,12 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
           <div className="info-item">
             <strong>Restore Count:</strong> {restoreCount}
           </div>
+          <div className="info-item">
+            <strong>Pending Saves:</strong> {pendingSaveCount > 0 ? `⏳ ${pendingSaveCount} waiting to retry` : 'None'}
+          </div>
+          <div className="info-item">
+            <strong>State Scope:</strong> {this.renderStateScope()}
+          </div>
         </div>
 
         <div className="overview-description">
@@ -749,11 +1717,29 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
     );
   }
 
+  /**
+   * Describe which plugin, module and instance the saved state belongs to
+   */
+  private renderStateScope(): string {
+    const { pluginId, moduleId, instanceId } = this.props;
+    return [
+      pluginId || 'ServiceExample_PluginState',
+      moduleId ? `module ${moduleId}` : null,
+      instanceId ? `instance ${instanceId}` : null
+    ].filter(Boolean).join(' / ');
+  }
+
   /**
    * Render Interactive Demo tab
    */
   private renderDemoTab(): JSX.Element {
-    const { demoData } = this.state;
+    const { demoData, autoSaveStatus, isStateConfigured } = this.state;
+    const dirty = isStateConfigured && this.pluginState.isDirty(this.getComparableState());
+    const autoSaveLabels: { [status in AutoSaveStatus]: string } = {
+      saving: '⏳ Saving...',
+      saved: '✅ All changes saved',
+      failed: '⚠️ Auto-save failed'
+    };
 
     return (
       <div className="tab-panel">
@@ -786,6 +1772,11 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
           >
             🗑️ Clear State
           </button>
+          {dirty && (
+            <span className="unsaved-badge" title="The on-screen state differs from the last saved state (see the State Viewer)">
+              ● Unsaved changes
+            </span>
+          )}
         </div>
 
         {this.state.isLoading && (
@@ -806,6 +1797,7 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
               onChange={this.handleTextChange}
               placeholder="Type something..."
               className="demo-input"
+              ref={element => { this.userInputField = element; }}
             />
             <small>Current value: "{demoData.userInput || 'empty'}"</small>
           </div>
@@ -836,6 +1828,9 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
                 />
                 <span>Auto Save</span>
                 <small>Automatically save changes</small>
+                {autoSaveStatus && (
+                  <small className={`auto-save-status auto-save-${autoSaveStatus}`}>{autoSaveLabels[autoSaveStatus]}</small>
+                )}
               </label>
               <label className="preference-item">
                 <input
@@ -857,37 +1852,346 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
    * Render State Viewer tab
    */
   private renderStateTab(): JSX.Element {
-    const { demoData, saveCount, restoreCount } = this.state;
+    const { demoData, saveCount, restoreCount, stateSize } = this.state;
 
     return (
       <div className="tab-panel">
         <h4>Current State</h4>
-        <p>This shows the current state object that gets saved and restored:</p>
+        <p>This shows the current state object that gets saved and restored. Edit it and apply to save the change:</p>
         
         <div className="state-viewer">
-          <div className="state-section">
-            <h5>Demo Data</h5>
-            <pre className="state-display">
-              {JSON.stringify(demoData, null, 2)}
-            </pre>
-          </div>
+          {this.renderStateEditor()}
 
-          <div className="state-section">
-            <h5>Metadata</h5>
-            <pre className="state-display">
-              {JSON.stringify({ saveCount, restoreCount }, null, 2)}
-            </pre>
-          </div>
+          {this.renderUnsavedChanges()}
 
           <div className="state-info">
             <h5>State Information</h5>
             <ul>
               <li><strong>Size:</strong> {JSON.stringify({ demoData, saveCount, restoreCount }).length} characters</li>
+              <li>
+                <strong>Saved Size:</strong>{' '}
+                {stateSize
+                  ? `${stateSize.rawSize} bytes raw, ${stateSize.storedSize} bytes stored` +
+                    (stateSize.compressed
+                      ? ` (compressed to ${Math.round((stateSize.storedSize / stateSize.rawSize) * 100)}%)`
+                      : ' (uncompressed)')
+                  : 'Nothing saved yet'}
+              </li>
               <li><strong>Last Updated:</strong> {demoData.timestamp}</li>
               <li><strong>Auto Save:</strong> {demoData.preferences.autoSave ? 'Enabled' : 'Disabled'}</li>
             </ul>
           </div>
+
+          {this.renderExportImport()}
+
+          {this.renderCheckpoints()}
+        </div>
+      </div>
+    );
+  }
+
+  /**
+   * Render the differences between the on-screen and the last saved state
+   */
+  private renderUnsavedChanges(): JSX.Element | null {
+    if (!this.state.isStateConfigured) {
+      return null;
+    }
+
+    const diff = this.pluginState.diffState(this.getComparableState());
+    const formatValue = (value: any): string => JSON.stringify(value);
+    const describe = (entry: StateDiffEntry): string => {
+      if (entry.type === 'added') {
+        return formatValue(entry.next);
+      }
+      if (entry.type === 'removed') {
+        return formatValue(entry.previous);
+      }
+      return `${formatValue(entry.previous)} → ${formatValue(entry.next)}`;
+    };
+
+    return (
+      <div className="state-section">
+        <h5>
+          Unsaved Changes {diff.length > 0 && <span className="unsaved-badge">{diff.length}</span>}
+        </h5>
+        {diff.length === 0 ? (
+          <p className="checkpoint-empty">The on-screen state matches the last saved state.</p>
+        ) : (
+          <ul className="state-diff">
+            {diff.map(entry => (
+              <li key={entry.path} className={`state-diff-entry diff-${entry.type}`}>
+                <span className="state-diff-type">{entry.type}</span>
+                <code>{entry.path}</code>
+                <span className="state-diff-value">{describe(entry)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+
+  /**
+   * Render the JSON editor of the State Viewer tab, with the schema errors of the edited state
+   */
+  private renderStateEditor(): JSX.Element {
+    const { stateEditorText, stateEditorParseError, stateEditorErrors, isLoading } = this.state;
+    const editing = stateEditorText !== null;
+    const invalid = stateEditorParseError !== null || stateEditorErrors.length > 0;
+
+    return (
+      <div className="state-section">
+        <h5>State Editor {editing && <span className="state-editor-badge">edited</span>}</h5>
+        <textarea
+          ref={element => { this.stateEditor = element; }}
+          value={editing ? stateEditorText : this.getEditorSourceText()}
+          onChange={this.editStateText}
+          spellCheck={false}
+          className={`state-display state-editor ${invalid ? 'invalid' : ''}`}
+          aria-invalid={invalid}
+        />
+
+        {stateEditorParseError && (
+          <ul className="state-editor-errors">
+            <li>Invalid JSON: {stateEditorParseError}</li>
+          </ul>
+        )}
+        {stateEditorErrors.length > 0 && (
+          <ul className="state-editor-errors">
+            {stateEditorErrors.map(({ line, error }) => (
+              <li key={`${error.path}-${error.rule}`}>
+                <button onClick={() => this.focusEditorLine(line)} className="state-editor-marker">
+                  Line {line + 1}
+                </button>{' '}
+                <code>{error.path || '(root)'}</code>: {error.message}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="conflict-actions">
+          <button
+            onClick={this.applyStateEdit}
+            disabled={!editing || invalid || isLoading}
+            className="operation-button"
+          >
+            Apply
+          </button>
+          <button onClick={this.revertStateEdit} disabled={!editing} className="checkpoint-action">
+            Revert
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  /**
+   * Render export and import section of the State Viewer tab
+   */
+  private renderExportImport(): JSX.Element {
+    const { importPreview, importFileName, isLoading } = this.state;
+
+    return (
+      <div className="state-section">
+        <h5>Export and Import</h5>
+        <p className="checkpoint-help">
+          Back up the saved state to a file, or move it to another machine by importing that file.
+        </p>
+
+        <div className="checkpoint-create">
+          <button onClick={this.exportState} disabled={isLoading} className="operation-button">
+            ⬇️ Export
+          </button>
+          <label className={`operation-button import-button ${isLoading ? 'disabled' : ''}`}>
+            ⬆️ Import
+            <input type="file" accept="application/json,.json" onChange={this.selectImportFile} disabled={isLoading} />
+          </label>
+        </div>
+
+        {importPreview && (
+          <div className="import-preview">
+            <h6>Import "{importFileName}"</h6>
+            <ul>
+              <li><strong>Plugin:</strong> {importPreview.file.pluginId}</li>
+              <li><strong>Schema Version:</strong> {importPreview.file.schemaVersion}</li>
+              <li>
+                <strong>Exported:</strong>{' '}
+                {importPreview.file.exportedAt ? new Date(importPreview.file.exportedAt).toLocaleString() : 'Unknown'}
+              </li>
+              <li>
+                <strong>Changes:</strong>{' '}
+                {importPreview.changedPaths.length > 0 ? importPreview.changedPaths.join(', ') : 'Same as the saved state'}
+              </li>
+            </ul>
+
+            {!importPreview.validation.valid && (
+              <ul className="import-errors">
+                {importPreview.validation.errors.map(fieldError => (
+                  <li key={`${fieldError.path}-${fieldError.rule}`}>{fieldError.message}</li>
+                ))}
+              </ul>
+            )}
+
+            <pre className="state-display">
+              {JSON.stringify(importPreview.state.demoData, null, 2)}
+            </pre>
+
+            <div className="conflict-actions">
+              <button
+                onClick={this.confirmImport}
+                disabled={isLoading || !importPreview.validation.valid}
+                className="operation-button"
+              >
+                Replace Current State
+              </button>
+              <button onClick={this.cancelImport} className="checkpoint-action">Cancel</button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  /**
+   * Render named checkpoints section of the State Viewer tab
+   */
+  private renderCheckpoints(): JSX.Element {
+    const { checkpoints, checkpointName, renamingCheckpointId, renameValue, isLoading } = this.state;
+
+    return (
+      <div className="state-section">
+        <h5>Checkpoints</h5>
+        <p className="checkpoint-help">Save the current state under a name and return to it later.</p>
+
+        <div className="checkpoint-create">
+          <input
+            type="text"
+            value={checkpointName}
+            onChange={(e) => this.setState({ checkpointName: e.target.value })}
+            onKeyDown={(e) => e.key === 'Enter' && checkpointName.trim() && this.createCheckpoint()}
+            placeholder='e.g. "before experiment"'
+            className="demo-input"
+          />
+          <button
+            onClick={this.createCheckpoint}
+            disabled={isLoading || !checkpointName.trim()}
+            className="operation-button"
+          >
+            📌 Save Checkpoint
+          </button>
         </div>
+
+        {checkpoints.length === 0 ? (
+          <p className="checkpoint-empty">No checkpoints yet.</p>
+        ) : (
+          <ul className="checkpoint-list">
+            {checkpoints.map(checkpoint => (
+              <li key={checkpoint.id} className="checkpoint-item">
+                {renamingCheckpointId === checkpoint.id ? (
+                  <div className="checkpoint-rename">
+                    <input
+                      type="text"
+                      value={renameValue}
+                      onChange={(e) => this.setState({ renameValue: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') this.renameCheckpoint();
+                        if (e.key === 'Escape') this.cancelRenamingCheckpoint();
+                      }}
+                      className="demo-input"
+                      autoFocus
+                    />
+                    <button onClick={this.renameCheckpoint} className="checkpoint-action">Save</button>
+                    <button onClick={this.cancelRenamingCheckpoint} className="checkpoint-action">Cancel</button>
+                  </div>
+                ) : (
+                  <>
+                    <div className="checkpoint-info">
+                      <strong>{checkpoint.name}</strong>
+                      <small>
+                        {new Date(checkpoint.createdAt).toLocaleString()} · {checkpoint.size} bytes
+                      </small>
+                    </div>
+                    <div className="checkpoint-actions">
+                      <button
+                        onClick={() => this.restoreCheckpoint(checkpoint)}
+                        disabled={isLoading}
+                        className="checkpoint-action"
+                      >
+                        Restore
+                      </button>
+                      <button onClick={() => this.startRenamingCheckpoint(checkpoint)} className="checkpoint-action">
+                        Rename
+                      </button>
+                      <button onClick={() => this.deleteCheckpoint(checkpoint)} className="checkpoint-action danger">
+                        Delete
+                      </button>
+                    </div>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+
+  /**
+   * Render History tab
+   */
+  private renderHistoryTab(): JSX.Element {
+    const { historyEntries, historyIndex } = this.state;
+
+    return (
+      <div className="tab-panel">
+        <h4>History</h4>
+        <p>Every change to the demo data is recorded. Step through it with the buttons, <kbd>Ctrl</kbd>+<kbd>Z</kbd> and <kbd>Ctrl</kbd>+<kbd>Shift</kbd>+<kbd>Z</kbd>, or jump to any entry:</p>
+
+        <div className="state-operations">
+          <button
+            onClick={this.undo}
+            disabled={!this.history.canUndo}
+            className="operation-button"
+            title="Undo the last change (Ctrl+Z)"
+          >
+            ↩️ Undo
+          </button>
+          <button
+            onClick={this.redo}
+            disabled={!this.history.canRedo}
+            className="operation-button"
+            title="Redo the last undone change (Ctrl+Shift+Z)"
+          >
+            ↪️ Redo
+          </button>
+          <span className="history-position">
+            Entry {historyIndex + 1} of {historyEntries.length}
+          </span>
+        </div>
+
+        <ol className="history-list">
+          {historyEntries.map((entry, index) => (
+            <li
+              key={`${entry.timestamp}-${index}`}
+              className={`history-entry ${index === historyIndex ? 'current' : ''} ${index > historyIndex ? 'undone' : ''}`}
+            >
+              <div className="history-entry-info">
+                <strong>{entry.label}</strong>
+                <small>
+                  {new Date(entry.timestamp).toLocaleTimeString()} · counter {entry.state.counter} · "{entry.state.userInput || 'empty'}"
+                </small>
+              </div>
+              {index === historyIndex ? (
+                <span className="history-current-marker">Current</span>
+              ) : (
+                <button onClick={() => this.jumpToHistoryEntry(index)} className="history-jump-button">
+                  Jump here
+                </button>
+              )}
+            </li>
+          ))}
+        </ol>
       </div>
     );
   }
@@ -949,7 +2253,7 @@ class PluginStateDemo extends React.Component<PluginStateDemoProps, PluginStateD
     const { isInitializing, error } = this.state;
 
     return (
-      <div className="plugin-state-demo">
+      <div className="plugin-state-demo" onKeyDown={this.handleKeyDown} tabIndex={-1}>
         {isInitializing ? (
           this.renderLoading()
         ) : error ? (
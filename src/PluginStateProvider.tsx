@@ -0,0 +1,194 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { AutoSaveController, AutoSaveControllerOptions } from './services/AutoSaveController';
+import { JsonPatchOperation, PluginStateConfig, PluginStateService } from './types';
+
+/**
+ * Loading, error and dirty flags returned by usePluginState
+ */
+export interface PluginStateStatus {
+  // True until the state has been restored on mount
+  loading: boolean;
+  // Last configure, restore or save error (cleared by the next successful save)
+  error: Error | null;
+  // True while the key has changes that are not saved yet
+  dirty: boolean;
+}
+
+/**
+ * Value shared by PluginStateProvider with the hooks below it
+ */
+interface PluginStateContextValue {
+  state: { [key: string]: any };
+  loading: boolean;
+  error: Error | null;
+  dirtyKeys: string[];
+  setKey: (key: string, update: (previous: any) => any) => void;
+}
+
+const PluginStateContext = createContext<PluginStateContextValue | null>(null);
+
+/**
+ * Props for PluginStateProvider
+ */
+export interface PluginStateProviderProps<T> {
+  // Service to use, usually services.pluginState
+  service: PluginStateService<T>;
+  // Applied once on mount; remount the provider (e.g. with a new key) to change it
+  config: PluginStateConfig<T>;
+  // Timing of the saves made by setters (defaults to a 500 ms debounce)
+  autoSave?: AutoSaveControllerOptions;
+  children?: React.ReactNode;
+}
+
+const toError = (error: unknown): Error => (error instanceof Error ? error : new Error(String(error)));
+
+// JSON Pointer to a top-level key (RFC 6901 escaping)
+const toPointer = (key: string): string => `/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+
+/**
+ * PluginState Provider
+ *
+ * Function-component counterpart of the wiring in PluginStateDemo: configures the service on
+ * mount, restores the state, keeps it in sync with saves, restores, clears and changes from
+ * other tabs, and cleans up every subscription on unmount. Values set through usePluginState
+ * are saved by an AutoSaveController, so edits are debounced and flushed on page hide and
+ * unmount. Edits not yet saved stay on top of any state the service reports meanwhile.
+ */
+export function PluginStateProvider<T>({ service, config, autoSave, children }: PluginStateProviderProps<T>): JSX.Element {
+  const [state, setState] = useState<{ [key: string]: any }>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [dirtyKeys, setDirtyKeys] = useState<string[]>([]);
+  const stateRef = useRef<{ [key: string]: any }>({});
+  // Values set since the last save was sent
+  const pendingRef = useRef<{ [key: string]: any }>({});
+  const controllerRef = useRef<AutoSaveController | null>(null);
+  const configRef = useRef(config);
+  const autoSaveRef = useRef(autoSave);
+
+  const publish = useCallback((next: { [key: string]: any }) => {
+    stateRef.current = next;
+    setState(next);
+  }, []);
+
+  useEffect(() => {
+    let active = true;
+    const showState = (next: any) => {
+      if (active) {
+        publish({ ...(next || service.sanitizeState({})), ...pendingRef.current });
+      }
+    };
+
+    // Each set key is replaced as a whole, so nested keys removed by the setter stay removed
+    const controller = new AutoSaveController(async () => {
+      const changes = pendingRef.current;
+      pendingRef.current = {};
+      const operations: JsonPatchOperation[] = Object.keys(changes).map(key => ({
+        op: 'add',
+        path: toPointer(key),
+        value: changes[key]
+      }));
+
+      try {
+        await service.applyPatch(operations);
+      } catch (saveError) {
+        pendingRef.current = { ...changes, ...pendingRef.current };
+        throw saveError;
+      }
+
+      if (active) {
+        setDirtyKeys(keys => keys.filter(key => key in pendingRef.current));
+        setError(null);
+      }
+    }, { debounceMs: 500, ...autoSaveRef.current });
+    controllerRef.current = controller;
+
+    const unsubscribers = [
+      controller.subscribe(event => {
+        if (event.status === 'failed' && active) {
+          setError(toError(event.error));
+        }
+      }),
+      service.onSave(saved => showState(saved)),
+      service.onRestore(restored => showState(restored)),
+      service.onExternalChange(change => showState(change.state)),
+      service.onClear(() => {
+        pendingRef.current = {};
+        controller.cancel();
+        setDirtyKeys([]);
+        showState(null);
+      })
+    ];
+
+    try {
+      service.configure(configRef.current);
+      controller.start();
+      service.getState()
+        .then(restored => showState(restored))
+        .catch(restoreError => {
+          if (active) {
+            setError(toError(restoreError));
+          }
+        })
+        .then(() => {
+          if (active) {
+            setLoading(false);
+          }
+        });
+    } catch (configureError) {
+      setError(toError(configureError));
+      setLoading(false);
+    }
+
+    return () => {
+      active = false;
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      controllerRef.current = null;
+      // Save edits still waiting for the debounce instead of dropping them
+      controller.flush();
+      controller.dispose();
+    };
+  }, [service, publish]);
+
+  const setKey = useCallback((key: string, update: (previous: any) => any) => {
+    const value = update(stateRef.current[key]);
+    pendingRef.current = { ...pendingRef.current, [key]: value };
+    publish({ ...stateRef.current, [key]: value });
+    setDirtyKeys(keys => (keys.indexOf(key) === -1 ? [...keys, key] : keys));
+    controllerRef.current?.schedule();
+  }, [publish]);
+
+  const value = useMemo<PluginStateContextValue>(
+    () => ({ state, loading, error, dirtyKeys, setKey }),
+    [state, loading, error, dirtyKeys, setKey]
+  );
+
+  return <PluginStateContext.Provider value={value}>{children}</PluginStateContext.Provider>;
+}
+
+/**
+ * Read and write one top-level key of the plugin state provided by the nearest
+ * PluginStateProvider
+ *
+ * Returns the value, a setter (taking a value or an updater, like useState's) and the key's
+ * loading, error and dirty flags.
+ */
+export function usePluginState<V = any>(
+  key: string
+): [V | undefined, (value: V | ((previous: V | undefined) => V)) => void, PluginStateStatus] {
+  const context = useContext(PluginStateContext);
+  const setKey = context ? context.setKey : null;
+  const setValue = useCallback((value: V | ((previous: V | undefined) => V)) => {
+    setKey?.(key, previous => (typeof value === 'function' ? (value as (previous: V | undefined) => V)(previous) : value));
+  }, [key, setKey]);
+
+  if (!context) {
+    throw new Error('PluginState service not configured: usePluginState must be used inside a PluginStateProvider');
+  }
+
+  return [
+    context.state[key],
+    setValue,
+    { loading: context.loading, error: context.error, dirty: context.dirtyKeys.indexOf(key) !== -1 }
+  ];
+}
@@ -1,9 +1,42 @@
 import React from 'react';
 import PluginStateDemo from './PluginStateDemo';
+import { PluginStateProvider, usePluginState } from './PluginStateProvider';
+import { StandalonePluginStateService } from './services/StandalonePluginStateService';
+import { AutoSaveController } from './services/AutoSaveController';
+import { IndexedDBKeyProvider, MemoryKeyProvider } from './services/keyProviders';
+import { PluginStateRegistry } from './services/PluginStateRegistry';
+import {
+  createLoggingMiddleware,
+  createRedactionMiddleware,
+  createSizeLimitMiddleware,
+  createTimestampMiddleware
+} from './services/stateMiddleware';
+import { IndexedDBStorageAdapter, MemoryStorageAdapter, WebStorageAdapter } from './services/storageAdapters';
 
 // Main entry point for ServiceExample_PluginState plugin
 export default PluginStateDemo;
 
+// Reference PluginState service for running plugins outside the BrainDrive host
+export { StandalonePluginStateService };
+
+// Registry handing out an isolated standalone service per plugin
+export { PluginStateRegistry };
+
+// Built-in storage adapters for the standalone service
+export { IndexedDBStorageAdapter, MemoryStorageAdapter, WebStorageAdapter };
+
+// Built-in key providers for encryptedKeys
+export { IndexedDBKeyProvider, MemoryKeyProvider };
+
+// Built-in middleware for the standalone service's persistence pipeline
+export { createLoggingMiddleware, createRedactionMiddleware, createSizeLimitMiddleware, createTimestampMiddleware };
+
+// Reusable debounced auto-save with flush on page hide
+export { AutoSaveController };
+
+// Context provider and hook for function components
+export { PluginStateProvider, usePluginState };
+
 // Version information
 export const version = '1.0.0';
 
@@ -23,84 +56,17 @@ if (process.env.NODE_ENV === 'development' && typeof window !== 'undefined') {
     import('react-dom/client').then(({ createRoot }) => {
       const root = createRoot(rootElement);
       
-      // Mock PluginState service for development
-      let mockState: any = {};
-      const mockCallbacks = {
-        save: [] as ((state: any) => void)[],
-        restore: [] as ((state: any) => void)[],
-        clear: [] as (() => void)[]
-      };
-
-      let mockConfig: any = null;
-
-      const mockServices = {
-        pluginState: {
-          configure: (config: any) => {
-            console.log('Mock PluginState configure:', config);
-            mockConfig = config;
-          },
-          getConfiguration: () => {
-            console.log('Mock PluginState getConfiguration');
-            return mockConfig;
-          },
-          saveState: async (state: any) => {
-            console.log('Mock PluginState saveState:', state);
-            mockState = { ...state };
-            localStorage.setItem('mock-plugin-state', JSON.stringify(state));
-            mockCallbacks.save.forEach(cb => cb(state));
-          },
-          getState: async () => {
-            console.log('Mock PluginState getState');
-            const saved = localStorage.getItem('mock-plugin-state');
-            const state = saved ? JSON.parse(saved) : null;
-            if (state) {
-              mockCallbacks.restore.forEach(cb => cb(state));
-            }
-            return state;
-          },
-          clearState: async () => {
-            console.log('Mock PluginState clearState');
-            mockState = {};
-            localStorage.removeItem('mock-plugin-state');
-            mockCallbacks.clear.forEach(cb => cb());
-          },
-          validateState: (state: any) => {
-            console.log('Mock PluginState validateState:', state);
-            return true;
-          },
-          sanitizeState: (state: any) => {
-            console.log('Mock PluginState sanitizeState:', state);
-            return state;
-          },
-          onSave: (callback: (state: any) => void) => {
-            mockCallbacks.save.push(callback);
-            return () => {
-              const index = mockCallbacks.save.indexOf(callback);
-              if (index > -1) mockCallbacks.save.splice(index, 1);
-            };
-          },
-          onRestore: (callback: (state: any) => void) => {
-            mockCallbacks.restore.push(callback);
-            return () => {
-              const index = mockCallbacks.restore.indexOf(callback);
-              if (index > -1) mockCallbacks.restore.splice(index, 1);
-            };
-          },
-          onClear: (callback: () => void) => {
-            mockCallbacks.clear.push(callback);
-            return () => {
-              const index = mockCallbacks.clear.indexOf(callback);
-              if (index > -1) mockCallbacks.clear.splice(index, 1);
-            };
-          }
-        }
+      // Standalone PluginState service for development (state is kept in browser storage)
+      const registry = new PluginStateRegistry();
+      const devServices = {
+        pluginState: registry.getService('ServiceExample_PluginState')
       };
 
-      // Render the plugin with mock PluginState service
+      // Render the plugin with the standalone PluginState service
       root.render(
         <React.StrictMode>
           <PluginStateDemo
-            services={mockServices}
+            services={devServices}
             title="PluginState Service Demo (Development)"
             description="Learn how to use the PluginState service bridge"
             config={{
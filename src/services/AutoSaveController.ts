@@ -0,0 +1,195 @@
+/**
+ * Status reported by an auto-save controller
+ */
+export type AutoSaveStatus = 'saving' | 'saved' | 'failed';
+
+/**
+ * A status change of an auto-save controller
+ */
+export interface AutoSaveEvent {
+  status: AutoSaveStatus;
+  // Rejection of the save function (only for 'failed')
+  error?: unknown;
+  timestamp: string;
+}
+
+/**
+ * Options for an auto-save controller
+ */
+export interface AutoSaveControllerOptions {
+  // Wait this long after the last change before saving (defaults to 1000 ms)
+  debounceMs?: number;
+  // Save at the latest this long after the first unsaved change, even while changes keep
+  // coming (no limit when omitted)
+  maxWaitMs?: number;
+  // Save pending changes when the page is hidden or unloaded (defaults to true)
+  flushOnPageHide?: boolean;
+}
+
+/**
+ * Auto-Save Controller
+ *
+ * Companion to the PluginState service that decides when to save: changes reported through
+ * schedule() are saved once they settle for `debounceMs`, or after `maxWaitMs` at the latest.
+ * Pending changes are saved right away on flush(), and when the page is hidden or unloaded
+ * (best effort: the browser may end the page before an asynchronous save completes). Saves
+ * never overlap; changes made during a save are saved after it.
+ */
+export class AutoSaveController {
+  private save: () => Promise<void>;
+  private debounceMs: number;
+  private maxWaitMs: number | null;
+  private flushOnPageHide: boolean;
+  private pending = false;
+  private saving: Promise<void> | null = null;
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private maxWaitTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: ((event: AutoSaveEvent) => void)[] = [];
+  private pageHideListener: (() => void) | null = null;
+  private visibilityListener: (() => void) | null = null;
+
+  constructor(save: () => Promise<void>, options: AutoSaveControllerOptions = {}) {
+    this.save = save;
+    this.debounceMs = options.debounceMs ?? 1000;
+    this.maxWaitMs = options.maxWaitMs ?? null;
+    this.flushOnPageHide = options.flushOnPageHide ?? true;
+
+    if (this.maxWaitMs !== null && this.maxWaitMs < this.debounceMs) {
+      throw new Error('AutoSaveController options invalid: maxWaitMs must not be shorter than debounceMs');
+    }
+  }
+
+  get hasPendingChanges(): boolean {
+    return this.pending;
+  }
+
+  get isSaving(): boolean {
+    return this.saving !== null;
+  }
+
+  /**
+   * Start flushing on page hide and unload
+   */
+  start(): void {
+    if (!this.flushOnPageHide || typeof window === 'undefined' || this.pageHideListener) {
+      return;
+    }
+
+    this.pageHideListener = () => {
+      this.flush();
+    };
+    this.visibilityListener = () => {
+      if (document.visibilityState === 'hidden') {
+        this.flush();
+      }
+    };
+    window.addEventListener('pagehide', this.pageHideListener);
+    document.addEventListener('visibilitychange', this.visibilityListener);
+  }
+
+  /**
+   * Report a change to be saved once changes settle
+   */
+  schedule(): void {
+    this.pending = true;
+
+    if (this.debounceTimer !== null) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => this.flush(), this.debounceMs);
+
+    if (this.maxWaitMs !== null && this.maxWaitTimer === null) {
+      this.maxWaitTimer = setTimeout(() => this.flush(), this.maxWaitMs);
+    }
+  }
+
+  /**
+   * Save pending changes now; resolves once they are saved or the save failed (failures are
+   * reported through the status events)
+   */
+  flush(): Promise<void> {
+    this.clearTimers();
+
+    if (this.saving) {
+      // Changes made during the running save go out right after it
+      return this.saving.then(() => (this.pending ? this.flush() : undefined));
+    }
+
+    if (!this.pending) {
+      return Promise.resolve();
+    }
+
+    this.pending = false;
+    this.emit({ status: 'saving', timestamp: new Date().toISOString() });
+    this.saving = this.save().then(
+      () => {
+        this.saving = null;
+        this.emit({ status: 'saved', timestamp: new Date().toISOString() });
+      },
+      error => {
+        this.saving = null;
+        // The changes are still unsaved; the next schedule() or flush() tries again
+        this.pending = true;
+        this.emit({ status: 'failed', error, timestamp: new Date().toISOString() });
+      }
+    );
+    return this.saving;
+  }
+
+  /**
+   * Drop pending changes without saving them (a save already running is not affected)
+   */
+  cancel(): void {
+    this.clearTimers();
+    this.pending = false;
+  }
+
+  /**
+   * Listen for status changes
+   */
+  subscribe(listener: (event: AutoSaveEvent) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) this.listeners.splice(index, 1);
+    };
+  }
+
+  /**
+   * Stop timers and page listeners and drop every status listener (a save already running
+   * still completes)
+   */
+  dispose(): void {
+    this.clearTimers();
+    if (this.pageHideListener) {
+      window.removeEventListener('pagehide', this.pageHideListener);
+      this.pageHideListener = null;
+    }
+    if (this.visibilityListener) {
+      document.removeEventListener('visibilitychange', this.visibilityListener);
+      this.visibilityListener = null;
+    }
+    this.listeners = [];
+  }
+
+  private clearTimers(): void {
+    if (this.debounceTimer !== null) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    if (this.maxWaitTimer !== null) {
+      clearTimeout(this.maxWaitTimer);
+      this.maxWaitTimer = null;
+    }
+  }
+
+  private emit(event: AutoSaveEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.warn('[AutoSaveController] Error in status listener:', error);
+      }
+    });
+  }
+}
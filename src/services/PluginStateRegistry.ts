@@ -0,0 +1,156 @@
+import { PluginStateService, PluginStateUsage, StateKeyProvider, StateStorageAdapter } from '../types';
+import { IndexedDBKeyProvider } from './keyProviders';
+import { StandalonePluginStateService } from './StandalonePluginStateService';
+import { createStrategyAdapter } from './storageAdapters';
+import { getEntrySize, getPluginIdFromStorageKey, isValidPluginId } from './storageNamespace';
+
+/**
+ * Options for a registry
+ */
+export interface PluginStateRegistryOptions {
+  // Adapters shared by every plugin's service, per stateStrategy
+  adapters?: {
+    session?: StateStorageAdapter;
+    persistent?: StateStorageAdapter;
+  };
+  // Key provider shared by every plugin's service (defaults to IndexedDBKeyProvider)
+  keyProvider?: StateKeyProvider;
+  // Storage quota for plugins without an entry in quotas (in bytes, unlimited when omitted)
+  defaultQuota?: number;
+  // Storage quota per pluginId (in bytes)
+  quotas?: { [pluginId: string]: number };
+}
+
+/**
+ * PluginState Registry
+ *
+ * Hands out one StandalonePluginStateService per pluginId, so a single host can serve many
+ * plugins. Each service is bound to its plugin (configuring it with another pluginId fails),
+ * keeps its own listeners and cross-tab channel, writes only inside its plugin's storage
+ * namespace and is held to its plugin's quota. The admin API reports which plugins hold
+ * state and how much storage each one uses.
+ */
+export class PluginStateRegistry {
+  private services: { [pluginId: string]: StandalonePluginStateService } = {};
+  private adapters: { session: StateStorageAdapter; persistent: StateStorageAdapter };
+  private keyProvider: StateKeyProvider;
+  private defaultQuota: number | null;
+  private quotas: { [pluginId: string]: number };
+
+  constructor(options: PluginStateRegistryOptions = {}) {
+    this.adapters = {
+      session: options.adapters?.session || createStrategyAdapter('session'),
+      persistent: options.adapters?.persistent || createStrategyAdapter('persistent')
+    };
+    this.keyProvider = options.keyProvider || new IndexedDBKeyProvider();
+    this.defaultQuota = options.defaultQuota !== undefined ? options.defaultQuota : null;
+    this.quotas = { ...options.quotas };
+  }
+
+  /**
+   * Get the service for a plugin, creating it on first use
+   */
+  getService<T = any>(pluginId: string): PluginStateService<T> {
+    if (!pluginId) {
+      throw new Error('PluginState registry: pluginId is required');
+    }
+    if (!isValidPluginId(pluginId)) {
+      throw new Error(`PluginState registry: pluginId "${pluginId}" is invalid: it must not contain ":"`);
+    }
+
+    if (!this.services[pluginId]) {
+      const quota = this.getQuota(pluginId);
+      this.services[pluginId] = new StandalonePluginStateService({
+        adapters: this.adapters,
+        keyProvider: this.keyProvider,
+        pluginId,
+        quota: quota !== null ? quota : undefined
+      });
+    }
+    return this.services[pluginId];
+  }
+
+  hasService(pluginId: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.services, pluginId);
+  }
+
+  /**
+   * Dispose a plugin's service (its stored state is kept); the next getService creates a new one
+   */
+  releaseService(pluginId: string): void {
+    if (this.hasService(pluginId)) {
+      this.services[pluginId].dispose();
+      delete this.services[pluginId];
+    }
+  }
+
+  /**
+   * Storage quota for a plugin (null when unlimited)
+   */
+  getQuota(pluginId: string): number | null {
+    return Object.prototype.hasOwnProperty.call(this.quotas, pluginId) ? this.quotas[pluginId] : this.defaultQuota;
+  }
+
+  /**
+   * Admin API: every plugin holding state in the registry's storage, with its usage
+   *
+   * Includes plugins whose service has not been requested in this session, as long as their
+   * state lives in the shared strategy adapters or in an adapter a configured service uses.
+   */
+  async listPlugins(): Promise<PluginStateUsage[]> {
+    const usage: { [pluginId: string]: PluginStateUsage } = {};
+
+    for (const adapter of this.getKnownAdapters()) {
+      for (const key of await adapter.keys()) {
+        const pluginId = getPluginIdFromStorageKey(key);
+        const value = pluginId !== null ? await adapter.getItem(key) : null;
+        if (pluginId === null || value === null) {
+          continue;
+        }
+
+        if (!usage[pluginId]) {
+          usage[pluginId] = { pluginId, entries: 0, bytes: 0, quota: this.getQuota(pluginId) };
+        }
+        usage[pluginId].entries++;
+        usage[pluginId].bytes += getEntrySize(key, value);
+      }
+    }
+
+    return Object.keys(usage).sort().map(pluginId => usage[pluginId]);
+  }
+
+  /**
+   * Admin API: storage used by one plugin
+   */
+  async getUsage(pluginId: string): Promise<PluginStateUsage> {
+    const plugins = await this.listPlugins();
+    for (const plugin of plugins) {
+      if (plugin.pluginId === pluginId) {
+        return plugin;
+      }
+    }
+    return { pluginId, entries: 0, bytes: 0, quota: this.getQuota(pluginId) };
+  }
+
+  /**
+   * Dispose every service handed out by the registry
+   */
+  dispose(): void {
+    Object.keys(this.services).forEach(pluginId => this.releaseService(pluginId));
+  }
+
+  /**
+   * The strategy adapters plus any custom adapter a configured service writes to
+   */
+  private getKnownAdapters(): StateStorageAdapter[] {
+    const adapters: StateStorageAdapter[] = [this.adapters.session, this.adapters.persistent];
+
+    Object.keys(this.services).forEach(pluginId => {
+      const config = this.services[pluginId].getConfiguration();
+      if (config?.storageAdapter && adapters.indexOf(config.storageAdapter) === -1) {
+        adapters.push(config.storageAdapter);
+      }
+    });
+    return adapters;
+  }
+}
@@ -0,0 +1,1508 @@
+import {
+  DeepPartial,
+  ExternalStateChange,
+  JsonPatchOperation,
+  PluginStateConfig,
+  PluginStateErrorEvent,
+  PluginStateExport,
+  PluginStateService,
+  SaveStateOptions,
+  StateCheckpoint,
+  StateDiffEntry,
+  StateImportPreview,
+  StateInterceptor,
+  StateKeyProvider,
+  StateMiddleware,
+  StateSizeInfo,
+  StateStorageAdapter,
+  StateValidationFailure,
+  StateValidationResult
+} from '../types';
+import { deepClone, generateId } from '../utils';
+import { compressString, decompressString } from './compression';
+import { CrossTabStateSync, StateSyncMessage } from './crossTabSync';
+import {
+  PluginStateCancelledError,
+  PluginStateConflictError,
+  PluginStateImportError,
+  PluginStateSaveQueuedError,
+  PluginStateStorageError,
+  PluginStateValidationError
+} from './errors';
+import { IndexedDBKeyProvider } from './keyProviders';
+import { DEFAULT_SCHEMA_VERSION, migrateState } from './migrations';
+import { QueuedWrite, SaveQueue, SaveQueueOptions } from './saveQueue';
+import { decryptStateKeys, encryptStateKeys } from './stateEncryption';
+import { collectTtlPaths, isPathTouched, removeExpiredPaths } from './stateExpiry';
+import { createStateExport, parseStateExport } from './stateExport';
+import { applyJsonPatch, collectChangedPaths, deepEqual, deepMerge, diffStates, getPathValue } from './statePatch';
+import { isPlainObject, sanitizeForConfig, validateAgainstSchema } from './stateSchema';
+import { createStrategyAdapter } from './storageAdapters';
+import { getEntrySize, getPluginNamespace, getSaveQueueKey, isValidPluginId, measurePluginUsage } from './storageNamespace';
+
+/**
+ * Shape of the record written to storage for a plugin
+ */
+interface StoredStateEnvelope {
+  pluginId: string;
+  // Schema version the data was saved under (missing in states saved before versioning)
+  version?: number;
+  savedAt: string;
+  // Incremented by every save of the current state (missing before the first revisioned save)
+  revision?: number;
+  // Uncompressed state
+  data?: any;
+  // Codec used for `compressed` (set only when the state was stored compressed)
+  encoding?: 'lz';
+  compressed?: string;
+  // Last change time of every path with a ttl
+  touchedAt?: { [path: string]: string };
+}
+
+// Fields of an envelope that carry the state itself
+type StoredStatePayload = Pick<StoredStateEnvelope, 'data' | 'encoding' | 'compressed'>;
+
+/**
+ * A state turned into its stored form
+ */
+interface EncodedState {
+  // State after encryption, as written inside the envelope
+  stored: any;
+  serialized: string;
+  payload: StoredStatePayload;
+  // Size counted against maxStateSize
+  storedSize: number;
+}
+
+/**
+ * Options for the standalone service
+ */
+export interface StandalonePluginStateServiceOptions {
+  // Adapters to use per stateStrategy instead of the built-in Web Storage adapters
+  adapters?: {
+    session?: StateStorageAdapter;
+    persistent?: StateStorageAdapter;
+  };
+  // Key provider for encryptedKeys when the configuration has none (defaults to IndexedDBKeyProvider)
+  keyProvider?: StateKeyProvider;
+  // Bind the service to one plugin: configure() rejects any other pluginId
+  pluginId?: string;
+  // Total bytes the plugin may hold in storage, across states and checkpoints
+  quota?: number;
+  // Retry timing for saves queued after a storage failure
+  saveQueue?: SaveQueueOptions;
+}
+
+/**
+ * Standalone PluginState Service
+ *
+ * Reference implementation of the PluginStateService contract that runs without the
+ * BrainDrive host. It honors the full PluginStateConfig: state is namespaced by pluginId
+ * (and moduleId/instanceId when given, with sharedKeys kept once per plugin),
+ * stored according to stateStrategy, filtered by preserveKeys, checked against stateSchema
+ * and limited by maxStateSize. With compression enabled the serialized state is stored
+ * LZ-compressed and maxStateSize applies to the compressed size. Keys listed in encryptedKeys
+ * are AES-GCM encrypted before anything else touches storage. Saves that fail to reach storage
+ * are queued and retried with backoff, and the queue survives a reload. Every save bumps the
+ * state's revision; a save given an expectedRevision is rejected with a conflict when another
+ * save got there first (saves in one service run one at a time, so the check and the write
+ * cannot interleave with another save from the same tab). beforeSave and beforeRestore hooks
+ * can transform or cancel saves and restores, and every failed operation is reported to onError.
+ * Middleware registered with use() forms a pipeline every saved state passes through on its
+ * way to storage, and every restored state on its way back.
+ *
+ * Storage goes through a StateStorageAdapter: config.storageAdapter when given, otherwise the
+ * adapter registered for the stateStrategy ('session' maps to sessionStorage and 'persistent'
+ * to localStorage unless other adapters are passed to the constructor).
+ */
+export class StandalonePluginStateService<T = any> implements PluginStateService<T> {
+  // Stored untyped so the schema helpers can work on it without the generic schema type
+  private config: PluginStateConfig | null = null;
+  private strategyAdapters: NonNullable<StandalonePluginStateServiceOptions['adapters']>;
+  private keyProvider: StateKeyProvider | null;
+  private boundPluginId: string | null;
+  private quota: number | null;
+  private saveQueueOptions: SaveQueueOptions;
+  private saveQueue: SaveQueue | null = null;
+  private saveCallbacks: ((state: T, changedPaths: string[]) => void)[] = [];
+  private restoreCallbacks: ((state: T) => void)[] = [];
+  private clearCallbacks: (() => void)[] = [];
+  private externalChangeCallbacks: ((change: ExternalStateChange<T>) => void)[] = [];
+  private expireCallbacks: ((expiredPaths: string[], state: T) => void)[] = [];
+  private pendingSavesCallbacks: ((count: number) => void)[] = [];
+  private pathCallbacks: { path: string; callback: (next: any, previous: any) => void }[] = [];
+  private beforeSaveHooks: StateInterceptor<T>[] = [];
+  private beforeRestoreHooks: StateInterceptor<T>[] = [];
+  private middleware: StateMiddleware<T>[] = [];
+  private errorCallbacks: ((event: PluginStateErrorEvent) => void)[] = [];
+  private validationFailedCallbacks: ((failure: StateValidationFailure) => void)[] = [];
+  private sync: CrossTabStateSync | null = null;
+  // Last state written or read by this service, used to report changed paths
+  private lastPersisted: T | null = null;
+  // Last change time of every path with a ttl, as of the last read or write
+  private lastTouchedAt: { [path: string]: string } = {};
+  // Revision of the current state as of the last read or write (null before the first one)
+  private lastRevision: number | null = null;
+  // Settles when the save in progress finishes
+  private commitLock: Promise<unknown> = Promise.resolve();
+
+  constructor(options: StandalonePluginStateServiceOptions = {}) {
+    this.strategyAdapters = { ...options.adapters };
+    this.keyProvider = options.keyProvider || null;
+    this.boundPluginId = options.pluginId || null;
+    this.quota = options.quota !== undefined ? options.quota : null;
+    this.saveQueueOptions = { ...options.saveQueue };
+
+    if (this.quota !== null && !(this.quota > 0)) {
+      throw new Error('PluginState service options invalid: quota must be a positive number');
+    }
+  }
+
+  configure(config: PluginStateConfig<T>): void {
+    try {
+      this.applyConfiguration(config);
+    } catch (error) {
+      this.reportError('configure', error);
+      throw error;
+    }
+  }
+
+  private applyConfiguration(config: PluginStateConfig<T>): void {
+    if (!config || !config.pluginId) {
+      throw new Error('PluginState configuration invalid: pluginId is required');
+    }
+
+    if (!isValidPluginId(config.pluginId)) {
+      throw new Error(`PluginState configuration invalid: pluginId "${config.pluginId}" must not contain ":"`);
+    }
+
+    if (this.boundPluginId !== null && config.pluginId !== this.boundPluginId) {
+      throw new Error(
+        `PluginState configuration invalid: this service belongs to "${this.boundPluginId}", not "${config.pluginId}"`
+      );
+    }
+
+    if (config.stateStrategy !== 'session' && config.stateStrategy !== 'persistent') {
+      throw new Error(`PluginState configuration invalid: unknown stateStrategy "${config.stateStrategy}"`);
+    }
+
+    if (config.maxStateSize !== undefined && !(config.maxStateSize > 0)) {
+      throw new Error('PluginState configuration invalid: maxStateSize must be a positive number');
+    }
+
+    if (config.schemaVersion !== undefined && !(config.schemaVersion >= 1 && config.schemaVersion % 1 === 0)) {
+      throw new Error('PluginState configuration invalid: schemaVersion must be a positive integer');
+    }
+
+    if (config.defaultTtl !== undefined && !(config.defaultTtl > 0)) {
+      throw new Error('PluginState configuration invalid: defaultTtl must be a positive number');
+    }
+
+    this.config = {
+      ...config,
+      preserveKeys: [...(config.preserveKeys || [])],
+      encryptedKeys: [...(config.encryptedKeys || [])],
+      sharedKeys: [...(config.sharedKeys || [])],
+      stateSchema: config.stateSchema ? { ...config.stateSchema } : undefined,
+      migrations: [...(config.migrations || [])]
+    };
+
+    this.lastPersisted = null;
+    this.lastTouchedAt = {};
+    this.lastRevision = null;
+    this.startSync(this.config);
+    this.startSaveQueue(this.config);
+  }
+
+  getConfiguration(): PluginStateConfig<T> | null {
+    return this.config ? ({ ...this.config } as PluginStateConfig<T>) : null;
+  }
+
+  saveState(state: T, options: SaveStateOptions = {}): Promise<void> {
+    return this.track('saveState', async () => {
+      const config = this.requireConfig('saveState');
+      await this.exclusive(() => this.commitState(config, 'saveState', state, this.lastPersisted, options));
+    });
+  }
+
+  updateState(partial: DeepPartial<T>, options: SaveStateOptions = {}): Promise<T> {
+    return this.track('updateState', async () => {
+      const config = this.requireConfig('updateState');
+
+      return this.exclusive(async () => {
+        const current = await this.readCurrentState(config, 'updateState', true);
+        return this.commitState(config, 'updateState', deepMerge(current, partial), current, options);
+      });
+    });
+  }
+
+  applyPatch(operations: JsonPatchOperation[], options: SaveStateOptions = {}): Promise<T> {
+    return this.track('applyPatch', async () => {
+      const config = this.requireConfig('applyPatch');
+
+      return this.exclusive(async () => {
+        const current = await this.readCurrentState(config, 'applyPatch', true);
+        return this.commitState(config, 'applyPatch', applyJsonPatch(current, operations), current, options);
+      });
+    });
+  }
+
+  getState(): Promise<T | null> {
+    return this.track('getState', async () => {
+      const config = this.requireConfig('getState');
+
+      const loaded = await this.loadCurrentState(config, 'getState');
+      if (!loaded) {
+        return null;
+      }
+
+      const state = this.sanitizeState(
+        await this.runInterceptors(this.beforeRestoreHooks, loaded, 'getState', 'beforeRestore')
+      );
+      const previous = this.lastPersisted;
+      this.lastPersisted = state;
+      this.notify(this.restoreCallbacks, state);
+      this.notifyPathChanges(previous, state);
+      return state;
+    });
+  }
+
+  getStateSize(): Promise<StateSizeInfo | null> {
+    return this.track('getStateSize', async () => {
+      const config = this.requireConfig('getStateSize');
+
+      const keys = [this.getStorageKey(config)];
+      if (this.hasSharedKeys(config)) {
+        keys.push(this.getSharedStorageKey(config));
+      }
+
+      let size: StateSizeInfo | null = null;
+      for (const key of keys) {
+        const envelope = await this.readRawEnvelope(config, key);
+        if (!envelope) {
+          continue;
+        }
+
+        const rawSize = this.decodePayload(config, envelope).length;
+        const compressed = envelope.compressed !== undefined;
+        size = {
+          rawSize: (size ? size.rawSize : 0) + rawSize,
+          storedSize: (size ? size.storedSize : 0) + (compressed ? (envelope.compressed as string).length : rawSize),
+          compressed: (size ? size.compressed : false) || compressed
+        };
+      }
+      return size;
+    });
+  }
+
+  /**
+   * Revision of the current state as of this service's last read or write (0 when nothing is
+   * stored, null before the first read or write)
+   */
+  getRevision(): number | null {
+    return this.lastRevision;
+  }
+
+  /**
+   * Copy of the last state this service saved, read or received from another tab (null before
+   * the first one and after a clear)
+   */
+  getPersistedState(): T | null {
+    return this.lastPersisted !== null ? deepClone(this.lastPersisted) : null;
+  }
+
+  /**
+   * Check whether a state differs from the persisted state (schema defaults are filled in
+   * first, as a save would)
+   */
+  isDirty(state: T): boolean {
+    return !deepEqual(this.sanitizeState(state), this.lastPersisted);
+  }
+
+  /**
+   * List the fields a state adds, removes or changes compared to the persisted state
+   */
+  diffState(state: T): StateDiffEntry[] {
+    return diffStates(this.lastPersisted, this.sanitizeState(state));
+  }
+
+  clearState(): Promise<void> {
+    return this.track('clearState', async () => {
+      const config = this.requireConfig('clearState');
+
+      // Shared keys belong to every instance of the plugin and are kept
+      await this.getAdapter(config).removeItem(this.getStorageKey(config));
+      const previous = this.lastPersisted;
+      this.lastPersisted = null;
+      this.lastTouchedAt = {};
+      this.lastRevision = 0;
+      this.clearCallbacks.forEach(callback => {
+        try {
+          callback();
+        } catch (error) {
+          console.warn('[StandalonePluginStateService] Error in onClear callback:', error);
+        }
+      });
+      this.notifyPathChanges(previous, null);
+      this.sync?.publish({
+        type: 'clear',
+        pluginId: config.pluginId,
+        scope: this.getStorageKey(config),
+        savedAt: new Date().toISOString(),
+        revision: 0,
+        state: null
+      });
+    });
+  }
+
+  /**
+   * Number of saves waiting to be retried after a storage failure
+   */
+  getPendingSaveCount(): number {
+    return this.saveQueue ? this.saveQueue.size : 0;
+  }
+
+  /**
+   * Retry the queued saves now instead of waiting for the next backoff
+   */
+  retryPendingSaves(): Promise<void> {
+    return this.track('retryPendingSaves', async () => {
+      const config = this.requireConfig('retryPendingSaves');
+      if (!this.saveQueue) {
+        return;
+      }
+
+      const failure = await this.saveQueue.flush();
+      if (failure) {
+        throw new PluginStateSaveQueuedError(config.pluginId, this.saveQueue.size, failure);
+      }
+    });
+  }
+
+  validateState(state: any): StateValidationResult {
+    return validateAgainstSchema(state, this.config?.stateSchema);
+  }
+
+  sanitizeState(state: any): T {
+    if (!this.config) {
+      return state;
+    }
+    return sanitizeForConfig(state, this.config);
+  }
+
+  onSave(callback: (state: T, changedPaths: string[]) => void): () => void {
+    return this.addListener(this.saveCallbacks, callback);
+  }
+
+  onRestore(callback: (state: T) => void): () => void {
+    return this.addListener(this.restoreCallbacks, callback);
+  }
+
+  onClear(callback: () => void): () => void {
+    return this.addListener(this.clearCallbacks, callback);
+  }
+
+  onExternalChange(callback: (change: ExternalStateChange<T>) => void): () => void {
+    return this.addListener(this.externalChangeCallbacks, callback);
+  }
+
+  onExpire(callback: (expiredPaths: string[], state: T) => void): () => void {
+    return this.addListener(this.expireCallbacks, callback);
+  }
+
+  onPendingSavesChange(callback: (count: number) => void): () => void {
+    return this.addListener(this.pendingSavesCallbacks, callback);
+  }
+
+  /**
+   * Listen for changes to one slice of the state, given as a dot-separated path such as
+   * `demoData.preferences.autoSave`
+   *
+   * The callback receives the next and previous values of the slice (undefined where it does
+   * not exist) and runs only when they differ, after saves, restores, clears and changes from
+   * other tabs.
+   */
+  subscribe(path: string, callback: (next: any, previous: any) => void): () => void {
+    return this.addListener(this.pathCallbacks, { path, callback });
+  }
+
+  /**
+   * Run a hook before every save (saveState, updateState, applyPatch, restoreCheckpoint)
+   *
+   * Hooks run in registration order on the state about to be validated and written, each
+   * getting the previous hook's result. Returning a state replaces it; returning false cancels
+   * the save with a PluginStateCancelledError. Hooks must not save themselves.
+   */
+  beforeSave(hook: StateInterceptor<T>): () => void {
+    return this.addListener(this.beforeSaveHooks, hook);
+  }
+
+  /**
+   * Run a hook on the state read by getState before it is handed out and reported to onRestore
+   * (returning false cancels the restore with a PluginStateCancelledError)
+   */
+  beforeRestore(hook: StateInterceptor<T>): () => void {
+    return this.addListener(this.beforeRestoreHooks, hook);
+  }
+
+  /**
+   * Add a step to the persistence pipeline
+   *
+   * Saved states pass through each middleware's save function in registration order after the
+   * beforeSave hooks and before validation; restored states pass through the restore functions
+   * in reverse order before the beforeRestore hooks. A step that throws fails the operation.
+   */
+  use(middleware: StateMiddleware<T>): () => void {
+    return this.addListener(this.middleware, middleware);
+  }
+
+  /**
+   * Listen for failed operations (cancellations by a hook are not reported)
+   */
+  onError(callback: (event: PluginStateErrorEvent) => void): () => void {
+    return this.addListener(this.errorCallbacks, callback);
+  }
+
+  /**
+   * Listen for states rejected by the stateSchema, with the failing fields
+   */
+  onValidationFailed(callback: (failure: StateValidationFailure) => void): () => void {
+    return this.addListener(this.validationFailedCallbacks, callback);
+  }
+
+  createCheckpoint(name: string, state: T): Promise<StateCheckpoint> {
+    return this.track('createCheckpoint', async () => {
+      const config = this.requireConfig('createCheckpoint');
+
+      const checkpoints = await this.readCheckpointIndex(config);
+      const checkpointName = this.normalizeCheckpointName(name, checkpoints);
+      // Checkpoints go through the same hooks and middleware as saves, so nothing a middleware
+      // keeps out of storage ends up in one; they keep the whole state, shared keys included,
+      // in a single envelope
+      const intercepted = await this.runInterceptors(this.beforeSaveHooks, state, 'createCheckpoint', 'beforeSave');
+      const piped = await this.runMiddleware(config, 'save', intercepted, 'createCheckpoint');
+      const encoded = await this.encodeState(config, this.prepareState(piped));
+      this.checkStateSize(config, [encoded]);
+
+      const checkpoint: StateCheckpoint = {
+        id: generateId(),
+        name: checkpointName,
+        createdAt: new Date().toISOString(),
+        size: encoded.serialized.length
+      };
+
+      await this.writeEnvelope(config, this.getCheckpointKey(config, checkpoint.id), encoded.payload);
+      await this.writeCheckpointIndex(config, [...checkpoints, checkpoint]);
+      return { ...checkpoint };
+    });
+  }
+
+  listCheckpoints(): Promise<StateCheckpoint[]> {
+    return this.track('listCheckpoints', async () => {
+      const config = this.requireConfig('listCheckpoints');
+      const checkpoints = await this.readCheckpointIndex(config);
+      return checkpoints.map(checkpoint => ({ ...checkpoint }));
+    });
+  }
+
+  restoreCheckpoint(id: string): Promise<T> {
+    return this.track('restoreCheckpoint', async () => {
+      const config = this.requireConfig('restoreCheckpoint');
+
+      const checkpoints = await this.readCheckpointIndex(config);
+      const checkpoint = this.findCheckpoint(checkpoints, id);
+      const stored = await this.readEnvelope(config, this.getCheckpointKey(config, id));
+      if (!stored) {
+        throw new Error(`Checkpoint "${checkpoint.name}" has no stored state`);
+      }
+
+      // The checkpoint becomes the current state (saving runs the save middleware again, so
+      // the stored form is passed back through the restore middleware first)
+      const restored = await this.restoreStoredState(config, stored.state, 'restoreCheckpoint');
+      const state = await this.exclusive(() =>
+        this.commitState(config, 'restoreCheckpoint', restored, this.lastPersisted)
+      );
+      this.notify(this.restoreCallbacks, state);
+      return state;
+    });
+  }
+
+  renameCheckpoint(id: string, name: string): Promise<StateCheckpoint> {
+    return this.track('renameCheckpoint', async () => {
+      const config = this.requireConfig('renameCheckpoint');
+
+      const checkpoints = await this.readCheckpointIndex(config);
+      const checkpoint = this.findCheckpoint(checkpoints, id);
+      const others = checkpoints.filter(other => other.id !== id);
+      const renamed: StateCheckpoint = { ...checkpoint, name: this.normalizeCheckpointName(name, others) };
+
+      await this.writeCheckpointIndex(config, checkpoints.map(other => (other.id === id ? renamed : other)));
+      return { ...renamed };
+    });
+  }
+
+  deleteCheckpoint(id: string): Promise<void> {
+    return this.track('deleteCheckpoint', async () => {
+      const config = this.requireConfig('deleteCheckpoint');
+
+      const checkpoints = await this.readCheckpointIndex(config);
+      this.findCheckpoint(checkpoints, id);
+
+      await this.getAdapter(config).removeItem(this.getCheckpointKey(config, id));
+      await this.writeCheckpointIndex(config, checkpoints.filter(checkpoint => checkpoint.id !== id));
+    });
+  }
+
+  /**
+   * Wrap the current state (the schema defaults when nothing is saved) in an export envelope
+   * that can be written to a file and imported again, on this machine or another
+   */
+  exportState(): Promise<PluginStateExport<T>> {
+    return this.track('exportState', async () => {
+      const config = this.requireConfig('exportState');
+      const state = await this.readCurrentState(config, 'exportState');
+      return createStateExport(config.pluginId, this.getSchemaVersion(config), state);
+    });
+  }
+
+  /**
+   * Read an export file without importing it: the migrated state, its validation result and
+   * the paths it would change
+   */
+  previewImport(file: string | PluginStateExport): Promise<StateImportPreview<T>> {
+    return this.track('previewImport', async () => {
+      const config = this.requireConfig('previewImport');
+      const { parsed, state } = await this.readImportFile(config, file);
+      const current = await this.readCurrentState(config, 'previewImport');
+      return {
+        file: parsed,
+        state,
+        validation: this.validateState(state),
+        changedPaths: collectChangedPaths(current, state)
+      };
+    });
+  }
+
+  /**
+   * Replace the current state with the state of an export file
+   */
+  importState(file: string | PluginStateExport): Promise<T> {
+    return this.track('importState', async () => {
+      const config = this.requireConfig('importState');
+      const { state: imported } = await this.readImportFile(config, file);
+
+      const state = await this.exclusive(() =>
+        this.commitState(config, 'importState', imported, this.lastPersisted)
+      );
+      this.notify(this.restoreCallbacks, state);
+      return state;
+    });
+  }
+
+  /**
+   * Stop cross-tab synchronization and save retries, and drop every listener
+   * (queued saves stay in storage and are retried by the next service for the plugin)
+   */
+  dispose(): void {
+    this.sync?.stop();
+    this.sync = null;
+    this.saveQueue?.stop();
+    this.saveQueue = null;
+    this.saveCallbacks = [];
+    this.restoreCallbacks = [];
+    this.clearCallbacks = [];
+    this.externalChangeCallbacks = [];
+    this.expireCallbacks = [];
+    this.pendingSavesCallbacks = [];
+    this.pathCallbacks = [];
+    this.beforeSaveHooks = [];
+    this.beforeRestoreHooks = [];
+    this.middleware = [];
+    this.errorCallbacks = [];
+    this.validationFailedCallbacks = [];
+  }
+
+  /**
+   * Return the active configuration or throw when configure() has not been called
+   */
+  private requireConfig(operation: string): PluginStateConfig {
+    if (!this.config) {
+      throw new Error(`PluginState service not configured: call configure() before ${operation}()`);
+    }
+    return this.config;
+  }
+
+  /**
+   * Run a public operation, reporting its failure to onError (and onValidationFailed) before
+   * rethrowing it
+   */
+  private async track<R>(operation: string, run: () => Promise<R>): Promise<R> {
+    try {
+      return await run();
+    } catch (error) {
+      this.reportError(operation, error);
+      throw error;
+    }
+  }
+
+  private reportError(operation: string, error: unknown): void {
+    if (error instanceof PluginStateCancelledError) {
+      return;
+    }
+
+    const timestamp = new Date().toISOString();
+    if (error instanceof PluginStateValidationError) {
+      const failure: StateValidationFailure = { operation, errors: error.errors, timestamp };
+      this.validationFailedCallbacks.forEach(callback => {
+        try {
+          callback(failure);
+        } catch (callbackError) {
+          console.warn('[StandalonePluginStateService] Error in onValidationFailed callback:', callbackError);
+        }
+      });
+    }
+
+    const normalized = error instanceof Error ? error : new Error(String(error));
+    const event: PluginStateErrorEvent = {
+      operation,
+      error: normalized,
+      name: normalized.name,
+      retryable: error instanceof PluginStateSaveQueuedError,
+      timestamp
+    };
+    this.errorCallbacks.forEach(callback => {
+      try {
+        callback(event);
+      } catch (callbackError) {
+        console.warn('[StandalonePluginStateService] Error in onError callback:', callbackError);
+      }
+    });
+  }
+
+  /**
+   * Pass a state through beforeSave or beforeRestore hooks, throwing when one cancels
+   */
+  private async runInterceptors(
+    hooks: StateInterceptor<T>[],
+    state: T,
+    operation: string,
+    hookName: string
+  ): Promise<T> {
+    let current = state;
+    for (const hook of hooks.slice()) {
+      const result = await hook(current);
+      if (result === false) {
+        throw new PluginStateCancelledError(operation, hookName);
+      }
+      if (result !== undefined) {
+        current = result;
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Pass a state through the middleware pipeline in the given direction
+   */
+  private async runMiddleware(
+    config: PluginStateConfig,
+    direction: 'save' | 'restore',
+    state: T,
+    operation: string
+  ): Promise<T> {
+    const steps = direction === 'save' ? this.middleware.slice() : this.middleware.slice().reverse();
+    const context = { pluginId: config.pluginId, operation };
+
+    let current = state;
+    for (const middleware of steps) {
+      const step = middleware[direction];
+      if (step) {
+        current = await step(current, context);
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Run saves one at a time, so the revision a save reads cannot change before it writes
+   */
+  private exclusive<R>(run: () => Promise<R>): Promise<R> {
+    const result = this.commitLock.then(run);
+    this.commitLock = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Write a state as the current state, notify listeners with the paths that changed since
+   * `previous`, and broadcast it to other tabs
+   */
+  private async commitState(
+    config: PluginStateConfig,
+    operation: string,
+    state: any,
+    previous: T | null,
+    options: SaveStateOptions = {}
+  ): Promise<T> {
+    const intercepted = await this.runInterceptors(this.beforeSaveHooks, state, operation, 'beforeSave');
+    const sanitized = this.prepareState(await this.runMiddleware(config, 'save', intercepted, operation));
+    // What a later read returns: listeners and callers see the state as restored, not its stored form
+    const saved = await this.restoreStoredState(config, sanitized, operation);
+
+    const revision = await this.readRevision(config);
+    if (options.expectedRevision !== undefined && options.expectedRevision !== revision) {
+      const stored = await this.readEnvelope(config, this.getStorageKey(config), true);
+      throw new PluginStateConflictError(
+        config.pluginId,
+        options.expectedRevision,
+        revision,
+        stored ? await this.restoreStoredState(config, stored.state, operation) : null
+      );
+    }
+
+    const encoded = await this.encodeCurrentState(config, sanitized);
+    this.checkStateSize(config, encoded);
+
+    const changedPaths = collectChangedPaths(previous, saved);
+    const touchedAt = this.getTouchedAt(config, changedPaths);
+    const savedAt = await this.writeCurrentState(config, encoded, touchedAt, revision + 1);
+    this.lastPersisted = saved;
+    this.lastTouchedAt = touchedAt;
+    this.lastRevision = revision + 1;
+    this.saveCallbacks.forEach(callback => {
+      try {
+        callback(saved, changedPaths);
+      } catch (error) {
+        console.warn('[StandalonePluginStateService] Error in onSave callback:', error);
+      }
+    });
+    this.notifyPathChanges(previous, saved);
+
+    // Other tabs get the stored form, so encrypted keys never travel in plain text
+    this.sync?.publish({
+      type: 'save',
+      pluginId: config.pluginId,
+      scope: this.getStorageKey(config),
+      savedAt,
+      revision: revision + 1,
+      state: encoded.reduce((stored, part) => ({ ...stored, ...part.stored }), {})
+    });
+    return saved;
+  }
+
+  /**
+   * Pass a state in its stored form back through the restore middleware
+   */
+  private async restoreStoredState(config: PluginStateConfig, stored: T, operation: string): Promise<T> {
+    return this.sanitizeState(await this.runMiddleware(config, 'restore', stored, operation));
+  }
+
+  /**
+   * Read the stored state without notifying listeners, or the schema defaults when none exists
+   */
+  private async readCurrentState(config: PluginStateConfig, operation: string, locked: boolean = false): Promise<T> {
+    const state = await this.loadCurrentState(config, operation, locked);
+    return state || this.sanitizeState({});
+  }
+
+  /**
+   * Read the current state through the restore middleware, persisting migrations and expired
+   * values and reporting expiries
+   *
+   * `locked` tells that the caller already holds the save lock; otherwise the write-back takes it.
+   */
+  private async loadCurrentState(
+    config: PluginStateConfig,
+    operation: string,
+    locked: boolean = false
+  ): Promise<T | null> {
+    const stored = await this.readEnvelope(config, this.getStorageKey(config), true);
+    if (!stored) {
+      this.lastRevision = 0;
+      return null;
+    }
+    this.lastTouchedAt = stored.touchedAt;
+    this.lastRevision = stored.revision;
+
+    // Persist states that were upgraded from an older schema version or lost expired values
+    // (under the same revision, as they hold no new changes), unless a save got in meanwhile
+    if (stored.migrated || stored.expired.length > 0) {
+      const writeBack = async () => {
+        if (await this.readRevision(config) !== stored.revision) {
+          return;
+        }
+        const encoded = await this.encodeCurrentState(config, stored.state);
+        await this.writeCurrentState(config, encoded, stored.touchedAt, stored.revision);
+      };
+      await (locked ? writeBack() : this.exclusive(writeBack));
+    }
+
+    const state = await this.restoreStoredState(config, stored.state, operation);
+    if (stored.expired.length > 0) {
+      this.expireCallbacks.forEach(callback => {
+        try {
+          callback(stored.expired, state);
+        } catch (error) {
+          console.warn('[StandalonePluginStateService] Error in onExpire callback:', error);
+        }
+      });
+    }
+
+    return state;
+  }
+
+  /**
+   * Last change time of every path with a ttl, refreshing the paths touched by a save
+   */
+  private getTouchedAt(config: PluginStateConfig, changedPaths: string[]): { [path: string]: string } {
+    const now = new Date().toISOString();
+    const touchedAt: { [path: string]: string } = {};
+
+    Object.keys(collectTtlPaths(config.stateSchema, config.defaultTtl)).forEach(path => {
+      const previous = this.lastTouchedAt[path];
+      touchedAt[path] = previous && !isPathTouched(path, changedPaths) ? previous : now;
+    });
+    return touchedAt;
+  }
+
+  /**
+   * Sanitize and validate a state before it is written
+   */
+  private prepareState(state: any): T {
+    const sanitized = this.sanitizeState(state);
+    const validation = this.validateState(sanitized);
+    if (!validation.valid) {
+      throw new PluginStateValidationError(validation.errors);
+    }
+    return sanitized;
+  }
+
+  /**
+   * Check the combined stored size of encoded states against maxStateSize
+   */
+  private checkStateSize(config: PluginStateConfig, encoded: EncodedState[]): void {
+    const storedSize = encoded.reduce((total, part) => total + part.storedSize, 0);
+    if (config.maxStateSize === undefined || storedSize <= config.maxStateSize) {
+      return;
+    }
+
+    const rawSize = encoded.reduce((total, part) => total + part.serialized.length, 0);
+    const sizeLabel = config.compression
+      ? `Compressed state size (${storedSize} bytes, ${rawSize} bytes raw)`
+      : `State size (${storedSize} bytes)`;
+    throw new Error(`${sizeLabel} exceeds maximum allowed size (${config.maxStateSize} bytes)`);
+  }
+
+  /**
+   * Turn a state into its stored form: encrypt the configured keys, then compress when the
+   * configuration asks for it
+   */
+  private async encodeState(config: PluginStateConfig, state: any): Promise<EncodedState> {
+    const encryptedKeys = config.encryptedKeys || [];
+    const stored = encryptedKeys.length > 0
+      ? await encryptStateKeys(state, encryptedKeys, await this.getKeyProvider(config).getKey(config.pluginId), config.pluginId)
+      : state;
+
+    const serialized = JSON.stringify(stored);
+    if (!config.compression) {
+      return { stored, serialized, payload: { data: stored }, storedSize: serialized.length };
+    }
+
+    const compressed = compressString(serialized);
+    return { stored, serialized, payload: { encoding: 'lz', compressed }, storedSize: compressed.length };
+  }
+
+  /**
+   * Encode the current state, splitting shared keys into their own plugin-wide entry
+   * (returns the instance part first, then the shared part when there is one)
+   */
+  private async encodeCurrentState(config: PluginStateConfig, state: any): Promise<EncodedState[]> {
+    const { own, shared } = this.splitSharedKeys(config, state);
+    const encoded = [await this.encodeState(config, own)];
+    if (shared) {
+      encoded.push(await this.encodeState(config, shared));
+    }
+    return encoded;
+  }
+
+  /**
+   * Revision of the stored current state (0 when nothing is stored)
+   */
+  private async readRevision(config: PluginStateConfig): Promise<number> {
+    const envelope = await this.readRawEnvelope(config, this.getStorageKey(config));
+    return envelope && envelope.revision ? envelope.revision : 0;
+  }
+
+  /**
+   * Write an encoded current state and return its save timestamp
+   */
+  private async writeCurrentState(
+    config: PluginStateConfig,
+    encoded: EncodedState[],
+    touchedAt: { [path: string]: string },
+    revision: number
+  ): Promise<string> {
+    // Each envelope records the change times of its own keys
+    const split = this.splitTouchedAt(config, touchedAt);
+    const envelope = this.createEnvelope(config, encoded[0].payload, split.own);
+    envelope.revision = revision;
+    const items = [{ key: this.getStorageKey(config), value: JSON.stringify(envelope) }];
+    if (encoded.length > 1) {
+      items.unshift({
+        key: this.getSharedStorageKey(config),
+        value: JSON.stringify(this.createEnvelope(config, encoded[1].payload, split.shared))
+      });
+    }
+
+    await this.writeCurrentItems(config, items);
+    return envelope.savedAt;
+  }
+
+  /**
+   * Write the entries of a current state, queueing them when storage fails
+   *
+   * While older saves are queued the new one joins the queue and the queue is flushed, so a
+   * retried save never overwrites a newer state.
+   */
+  private async writeCurrentItems(config: PluginStateConfig, items: QueuedWrite[]): Promise<void> {
+    const queue = this.saveQueue;
+    if (!queue) {
+      await this.writeItems(config, items);
+      return;
+    }
+
+    await queue.ready();
+    if (queue.size === 0) {
+      try {
+        await this.writeItems(config, items);
+        return;
+      } catch (error) {
+        if (!(error instanceof PluginStateStorageError)) {
+          throw error;
+        }
+        await queue.enqueue(items);
+        throw new PluginStateSaveQueuedError(config.pluginId, queue.size, error);
+      }
+    }
+
+    await queue.enqueue(items);
+    const failure = await queue.flush();
+    if (failure) {
+      throw new PluginStateSaveQueuedError(config.pluginId, queue.size, failure);
+    }
+  }
+
+  /**
+   * Separate the change times of shared keys from those of the module/instance's own keys
+   */
+  private splitTouchedAt(
+    config: PluginStateConfig,
+    touchedAt: { [path: string]: string }
+  ): { own: { [path: string]: string }; shared: { [path: string]: string } } {
+    const sharedKeys = config.sharedKeys || [];
+    const own: { [path: string]: string } = {};
+    const shared: { [path: string]: string } = {};
+    Object.keys(touchedAt).forEach(path => {
+      const target = sharedKeys.indexOf(path.split('.')[0]) !== -1 ? shared : own;
+      target[path] = touchedAt[path];
+    });
+    return { own, shared };
+  }
+
+  private hasSharedKeys(config: PluginStateConfig): boolean {
+    return (config.sharedKeys || []).length > 0;
+  }
+
+  /**
+   * Separate the shared keys of a state from the keys owned by this module/instance
+   */
+  private splitSharedKeys(config: PluginStateConfig, state: any): { own: any; shared: any | null } {
+    if (!this.hasSharedKeys(config) || state === null || typeof state !== 'object') {
+      return { own: state, shared: null };
+    }
+
+    const sharedKeys = config.sharedKeys || [];
+    const own: { [key: string]: any } = {};
+    const shared: { [key: string]: any } = {};
+    Object.keys(state).forEach(key => {
+      if (sharedKeys.indexOf(key) !== -1) {
+        shared[key] = state[key];
+      } else {
+        own[key] = state[key];
+      }
+    });
+    return { own, shared };
+  }
+
+  /**
+   * Decrypt the encrypted keys of a stored state
+   */
+  private decryptState(config: PluginStateConfig, stored: any): Promise<any> {
+    if (stored === null || typeof stored !== 'object' || Array.isArray(stored)) {
+      return Promise.resolve(stored);
+    }
+    return decryptStateKeys(stored, () => this.getKeyProvider(config).getKey(config.pluginId), config.pluginId);
+  }
+
+  /**
+   * Get the JSON of a stored envelope's state, decompressing it when needed
+   */
+  private decodePayload(config: PluginStateConfig, envelope: StoredStateEnvelope): string {
+    if (envelope.encoding === undefined) {
+      return JSON.stringify(envelope.data);
+    }
+
+    if (envelope.encoding !== 'lz' || typeof envelope.compressed !== 'string') {
+      throw new Error(`Stored state for "${config.pluginId}" is invalid: unsupported encoding "${envelope.encoding}"`);
+    }
+    return decompressString(envelope.compressed);
+  }
+
+  /**
+   * Read and parse the raw envelope stored under a key
+   */
+  private async readRawEnvelope(config: PluginStateConfig, key: string): Promise<StoredStateEnvelope | null> {
+    // A queued save holds a newer value than storage
+    if (this.saveQueue) {
+      await this.saveQueue.ready();
+    }
+    const pending = this.saveQueue ? this.saveQueue.getPendingValue(key) : null;
+    const raw = pending !== null ? pending : await this.getAdapter(config).getItem(key);
+    if (raw === null) {
+      return null;
+    }
+
+    let envelope: StoredStateEnvelope;
+    try {
+      envelope = JSON.parse(raw);
+    } catch (error) {
+      throw new Error(`Stored state for "${config.pluginId}" is invalid JSON`);
+    }
+
+    if (!envelope || envelope.pluginId !== config.pluginId) {
+      throw new Error(`Stored state for "${config.pluginId}" is invalid: plugin id mismatch`);
+    }
+    return envelope;
+  }
+
+  /**
+   * Read a stored envelope and bring its data up to the configured schema version
+   * (`current` merges in the plugin-wide shared keys and drops expired values, for the
+   * current state)
+   */
+  private async readEnvelope(
+    config: PluginStateConfig,
+    key: string,
+    current: boolean = false
+  ): Promise<{
+    state: T;
+    migrated: boolean;
+    expired: string[];
+    touchedAt: { [path: string]: string };
+    revision: number;
+  } | null> {
+    const own = await this.readStoredData(config, key);
+    const shared = current && this.hasSharedKeys(config)
+      ? await this.readStoredData(config, this.getSharedStorageKey(config))
+      : null;
+    const base = own || shared;
+    if (!base) {
+      return null;
+    }
+
+    let data = own ? own.data : {};
+    if (shared) {
+      data = { ...data, ...this.splitSharedKeys(config, shared.data).shared };
+    }
+
+    const storedVersion = base.version;
+    const targetVersion = this.getSchemaVersion(config);
+    if (storedVersion !== targetVersion) {
+      data = await migrateState(data, storedVersion, targetVersion, config.migrations);
+    }
+
+    const touchedAt: { [path: string]: string } = {};
+    let expired: string[] = [];
+    if (current) {
+      // Values saved before they had a ttl count from the state's save time
+      const ttls = collectTtlPaths(config.stateSchema, config.defaultTtl);
+      const recorded = { ...(shared ? shared.touchedAt : {}), ...(own ? own.touchedAt : {}) };
+      Object.keys(ttls).forEach(path => {
+        touchedAt[path] = recorded[path] || base.savedAt;
+      });
+
+      if (isPlainObject(data)) {
+        expired = removeExpiredPaths(data, ttls, touchedAt);
+      }
+
+      // Expired values come back as schema defaults, which start a new ttl
+      const now = new Date().toISOString();
+      Object.keys(touchedAt).forEach(path => {
+        if (isPathTouched(path, expired)) {
+          touchedAt[path] = now;
+        }
+      });
+    }
+
+    return {
+      state: this.sanitizeState(data),
+      migrated: storedVersion !== targetVersion,
+      expired,
+      touchedAt,
+      revision: own ? own.revision : 0
+    };
+  }
+
+  /**
+   * Read the decompressed and decrypted data of a stored envelope with its schema version
+   */
+  private async readStoredData(
+    config: PluginStateConfig,
+    key: string
+  ): Promise<{
+    data: any;
+    version: number;
+    savedAt: string;
+    touchedAt: { [path: string]: string };
+    revision: number;
+  } | null> {
+    const envelope = await this.readRawEnvelope(config, key);
+    if (!envelope) {
+      return null;
+    }
+
+    const stored = envelope.encoding === undefined ? envelope.data : JSON.parse(this.decodePayload(config, envelope));
+    return {
+      data: await this.decryptState(config, stored),
+      version: envelope.version || DEFAULT_SCHEMA_VERSION,
+      savedAt: envelope.savedAt,
+      touchedAt: envelope.touchedAt || {},
+      revision: envelope.revision || 0
+    };
+  }
+
+  private async readCheckpointIndex(config: PluginStateConfig): Promise<StateCheckpoint[]> {
+    const raw = await this.getAdapter(config).getItem(this.getCheckpointIndexKey(config));
+    if (raw === null) {
+      return [];
+    }
+
+    try {
+      const checkpoints = JSON.parse(raw);
+      return Array.isArray(checkpoints) ? checkpoints : [];
+    } catch (error) {
+      throw new Error(`Checkpoint index for "${config.pluginId}" is invalid JSON`);
+    }
+  }
+
+  private async writeCheckpointIndex(config: PluginStateConfig, checkpoints: StateCheckpoint[]): Promise<void> {
+    await this.writeItems(config, [{ key: this.getCheckpointIndexKey(config), value: JSON.stringify(checkpoints) }]);
+  }
+
+  private findCheckpoint(checkpoints: StateCheckpoint[], id: string): StateCheckpoint {
+    for (let i = 0; i < checkpoints.length; i++) {
+      if (checkpoints[i].id === id) {
+        return checkpoints[i];
+      }
+    }
+    throw new Error(`Checkpoint "${id}" not found`);
+  }
+
+  /**
+   * Trim a checkpoint name and make sure it is not empty or already taken
+   */
+  private normalizeCheckpointName(name: string, existing: StateCheckpoint[]): string {
+    const trimmed = (name || '').trim();
+    if (!trimmed) {
+      throw new Error('Checkpoint name is invalid: name must not be empty');
+    }
+
+    if (existing.some(checkpoint => checkpoint.name === trimmed)) {
+      throw new Error(`Checkpoint name is invalid: "${trimmed}" already exists`);
+    }
+
+    return trimmed;
+  }
+
+  /**
+   * Parse an export file of this plugin and migrate its data to the current schema version
+   */
+  private async readImportFile(
+    config: PluginStateConfig,
+    file: string | PluginStateExport
+  ): Promise<{ parsed: PluginStateExport; state: T }> {
+    const parsed = parseStateExport(file);
+    if (parsed.pluginId !== config.pluginId) {
+      throw new PluginStateImportError(`it was exported by plugin "${parsed.pluginId}", not "${config.pluginId}"`);
+    }
+
+    const targetVersion = this.getSchemaVersion(config);
+    if (parsed.schemaVersion > targetVersion) {
+      throw new PluginStateImportError(
+        `it was exported with schema version ${parsed.schemaVersion}, newer than version ${targetVersion}`
+      );
+    }
+
+    const data = parsed.schemaVersion !== targetVersion
+      ? await migrateState(parsed.data, parsed.schemaVersion, targetVersion, config.migrations)
+      : parsed.data;
+    return { parsed, state: this.sanitizeState(data) };
+  }
+
+  private getSchemaVersion(config: PluginStateConfig): number {
+    return config.schemaVersion || DEFAULT_SCHEMA_VERSION;
+  }
+
+  private createEnvelope(
+    config: PluginStateConfig,
+    payload: StoredStatePayload,
+    touchedAt?: { [path: string]: string }
+  ): StoredStateEnvelope {
+    const envelope: StoredStateEnvelope = {
+      pluginId: config.pluginId,
+      version: this.getSchemaVersion(config),
+      savedAt: new Date().toISOString(),
+      ...payload
+    };
+    if (touchedAt && Object.keys(touchedAt).length > 0) {
+      envelope.touchedAt = touchedAt;
+    }
+    return envelope;
+  }
+
+  /**
+   * Write a state to storage and return its save timestamp
+   */
+  private async writeEnvelope(config: PluginStateConfig, key: string, payload: StoredStatePayload): Promise<string> {
+    const envelope = this.createEnvelope(config, payload);
+    await this.writeItems(config, [{ key, value: JSON.stringify(envelope) }]);
+    return envelope.savedAt;
+  }
+
+  /**
+   * Write entries to storage, checking the plugin's quota for all of them before writing any
+   */
+  private async writeItems(config: PluginStateConfig, items: { key: string; value: string }[]): Promise<void> {
+    const adapter = this.getAdapter(config);
+
+    if (this.quota !== null) {
+      let bytes = (await measurePluginUsage(adapter, config.pluginId)).bytes;
+      for (const item of items) {
+        const existing = await adapter.getItem(item.key);
+        bytes += getEntrySize(item.key, item.value) - (existing !== null ? getEntrySize(item.key, existing) : 0);
+      }
+
+      if (bytes > this.quota) {
+        throw new Error(
+          `Storage quota exceeded for "${config.pluginId}": writing would use ${bytes} of ${this.quota} bytes`
+        );
+      }
+    }
+
+    for (const item of items) {
+      try {
+        await adapter.setItem(item.key, item.value);
+      } catch (error) {
+        const detail = error instanceof Error ? error.message : String(error);
+        throw new PluginStateStorageError(`Storage write failed for "${config.pluginId}": ${detail}`, error);
+      }
+    }
+  }
+
+  /**
+   * (Re)start cross-tab synchronization for the configured plugin
+   */
+  private startSync(config: PluginStateConfig): void {
+    this.sync?.stop();
+    this.sync = null;
+
+    // Session storage is per tab, so another tab's revision and state would not match this
+    // tab's storage (and the storage-event fallback would leak session state into localStorage)
+    const enabled = config.syncAcrossTabs !== undefined ? config.syncAcrossTabs : config.stateStrategy === 'persistent';
+    if (!enabled) {
+      return;
+    }
+
+    this.sync = new CrossTabStateSync(config.pluginId, message => this.handleSyncMessage(message));
+    this.sync.start();
+  }
+
+  /**
+   * (Re)start the queue of failed saves, picking up saves queued before a reload
+   *
+   * The queue is kept in the Web Storage matching the stateStrategy, which stays local even
+   * when the state itself goes to a remote storageAdapter.
+   */
+  private startSaveQueue(config: PluginStateConfig): void {
+    this.saveQueue?.stop();
+
+    const queue = new SaveQueue(
+      this.getStrategyAdapter(config),
+      getSaveQueueKey(this.getStorageKey(config)),
+      items => this.writeItems(config, items),
+      error => error instanceof PluginStateStorageError,
+      count => {
+        this.pendingSavesCallbacks.forEach(callback => {
+          try {
+            callback(count);
+          } catch (error) {
+            console.warn('[StandalonePluginStateService] Error in onPendingSavesChange callback:', error);
+          }
+        });
+      },
+      this.saveQueueOptions
+    );
+    this.saveQueue = queue;
+    queue.start().catch(error => console.warn('[StandalonePluginStateService] Failed to start save queue:', error));
+  }
+
+  private async handleSyncMessage(message: StateSyncMessage): Promise<void> {
+    const config = this.config;
+    if (!config || message.pluginId !== config.pluginId) {
+      return;
+    }
+
+    // Another module or instance of the plugin only affects this one through shared keys
+    const sameScope = message.scope === this.getStorageKey(config);
+    if (!sameScope && (message.type !== 'save' || !this.hasSharedKeys(config))) {
+      return;
+    }
+
+    let state: T | null = null;
+    if (message.type === 'save') {
+      try {
+        const incoming = await this.restoreStoredState(config, await this.decryptState(config, message.state), 'sync');
+        state = this.sanitizeState(
+          sameScope ? incoming : { ...this.lastPersisted, ...this.splitSharedKeys(config, incoming).shared }
+        );
+      } catch (error) {
+        console.warn('[StandalonePluginStateService] Ignoring state from another tab:', error);
+        return;
+      }
+    }
+
+    // A change to shared keys leaves this instance's own revision as it was
+    if (sameScope) {
+      this.lastRevision = message.revision;
+    }
+
+    const change: ExternalStateChange<T> = {
+      type: message.type,
+      state,
+      savedAt: message.savedAt,
+      revision: this.lastRevision !== null ? this.lastRevision : 0
+    };
+    const previous = this.lastPersisted;
+    this.lastPersisted = change.state;
+
+    this.externalChangeCallbacks.forEach(callback => {
+      try {
+        callback(change);
+      } catch (error) {
+        console.warn('[StandalonePluginStateService] Error in onExternalChange callback:', error);
+      }
+    });
+    this.notifyPathChanges(previous, change.state);
+  }
+
+  /**
+   * Storage key of the current state, namespaced by plugin and then by module and instance
+   */
+  private getStorageKey(config: PluginStateConfig): string {
+    let key = getPluginNamespace(config.pluginId);
+    if (config.moduleId) {
+      key += `:module:${config.moduleId}`;
+    }
+    if (config.instanceId) {
+      key += `:instance:${config.instanceId}`;
+    }
+    return key;
+  }
+
+  private getSharedStorageKey(config: PluginStateConfig): string {
+    return `${getPluginNamespace(config.pluginId)}:shared`;
+  }
+
+  private getCheckpointIndexKey(config: PluginStateConfig): string {
+    return `${this.getStorageKey(config)}:checkpoints`;
+  }
+
+  private getCheckpointKey(config: PluginStateConfig, id: string): string {
+    return `${this.getStorageKey(config)}:checkpoint:${id}`;
+  }
+
+  /**
+   * Resolve the storage adapter for a configuration, creating strategy adapters on first use
+   */
+  private getAdapter(config: PluginStateConfig): StateStorageAdapter {
+    if (config.storageAdapter) {
+      return config.storageAdapter;
+    }
+    return this.getStrategyAdapter(config);
+  }
+
+  /**
+   * Built-in (or constructor-provided) adapter for the configuration's stateStrategy
+   */
+  private getStrategyAdapter(config: PluginStateConfig): StateStorageAdapter {
+    let adapter = this.strategyAdapters[config.stateStrategy];
+    if (!adapter) {
+      adapter = createStrategyAdapter(config.stateStrategy);
+      this.strategyAdapters[config.stateStrategy] = adapter;
+    }
+    return adapter;
+  }
+
+  /**
+   * Resolve the key provider for a configuration, creating the default provider on first use
+   */
+  private getKeyProvider(config: PluginStateConfig): StateKeyProvider {
+    if (config.keyProvider) {
+      return config.keyProvider;
+    }
+
+    if (!this.keyProvider) {
+      this.keyProvider = new IndexedDBKeyProvider();
+    }
+    return this.keyProvider;
+  }
+
+  private addListener<T>(callbacks: T[], callback: T): () => void {
+    callbacks.push(callback);
+    return () => {
+      const index = callbacks.indexOf(callback);
+      if (index > -1) callbacks.splice(index, 1);
+    };
+  }
+
+  /**
+   * Run the path subscribers whose slice differs between two states
+   */
+  private notifyPathChanges(previous: T | null, next: T | null): void {
+    // Copy first, so a callback that unsubscribes does not skip the next subscriber
+    this.pathCallbacks.slice().forEach(({ path, callback }) => {
+      const before = getPathValue(previous, path);
+      const after = getPathValue(next, path);
+      if (deepEqual(before, after)) {
+        return;
+      }
+
+      try {
+        callback(after, before);
+      } catch (error) {
+        console.warn(`[StandalonePluginStateService] Error in subscribe callback for "${path}":`, error);
+      }
+    });
+  }
+
+  private notify(callbacks: ((state: T) => void)[], state: T): void {
+    callbacks.forEach(callback => {
+      try {
+        callback(state);
+      } catch (error) {
+        console.warn('[StandalonePluginStateService] Error in state callback:', error);
+      }
+    });
+  }
+}
+
+export default StandalonePluginStateService;
@@ -0,0 +1,155 @@
+import { deepClone } from '../utils';
+
+/**
+ * A single snapshot in the history
+ */
+export interface StateHistoryEntry<T> {
+  state: T;
+  label: string;
+  timestamp: string;
+}
+
+/**
+ * Options for a history manager
+ */
+export interface StateHistoryOptions {
+  // Maximum number of snapshots kept, including the current one (defaults to 50)
+  maxEntries?: number;
+  // Consecutive records with the same label inside this window replace each other (defaults to 1000 ms)
+  coalesceWindowMs?: number;
+}
+
+/**
+ * State History Manager
+ *
+ * Companion to the PluginState service that keeps a bounded list of state snapshots with
+ * undo/redo navigation. The entry at `index` is the current state; recording a new state
+ * after an undo discards the redo branch. Snapshots are deep-cloned on the way in and out.
+ */
+export class StateHistory<T> {
+  private entries: StateHistoryEntry<T>[] = [];
+  private index = -1;
+  private lastRecordedAt = 0;
+  private maxEntries: number;
+  private coalesceWindowMs: number;
+  private listeners: (() => void)[] = [];
+
+  constructor(options: StateHistoryOptions = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? 50);
+    this.coalesceWindowMs = options.coalesceWindowMs ?? 1000;
+  }
+
+  get canUndo(): boolean {
+    return this.index > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.index < this.entries.length - 1;
+  }
+
+  /**
+   * Position of the current snapshot in getEntries()
+   */
+  get currentIndex(): number {
+    return this.index;
+  }
+
+  /**
+   * Snapshots from oldest to newest
+   */
+  getEntries(): StateHistoryEntry<T>[] {
+    return this.entries.slice();
+  }
+
+  /**
+   * Drop every snapshot and start over from a baseline state
+   */
+  reset(state: T, label: string = 'Initial state'): void {
+    this.entries = [this.createEntry(state, label)];
+    this.index = 0;
+    this.lastRecordedAt = 0;
+    this.emit();
+  }
+
+  /**
+   * Record a new current state
+   */
+  record(state: T, label: string): void {
+    const now = Date.now();
+    const current = this.entries[this.index];
+    const canCoalesce =
+      current !== undefined &&
+      this.index > 0 &&
+      !this.canRedo &&
+      current.label === label &&
+      now - this.lastRecordedAt < this.coalesceWindowMs;
+
+    if (canCoalesce) {
+      this.entries[this.index] = this.createEntry(state, label);
+    } else {
+      this.entries = this.entries.slice(0, this.index + 1);
+      this.entries.push(this.createEntry(state, label));
+      if (this.entries.length > this.maxEntries) {
+        this.entries = this.entries.slice(this.entries.length - this.maxEntries);
+      }
+      this.index = this.entries.length - 1;
+    }
+
+    this.lastRecordedAt = now;
+    this.emit();
+  }
+
+  /**
+   * Step back one snapshot, returning the state to apply (or null at the start)
+   */
+  undo(): T | null {
+    return this.canUndo ? this.goTo(this.index - 1) : null;
+  }
+
+  /**
+   * Step forward one snapshot, returning the state to apply (or null at the end)
+   */
+  redo(): T | null {
+    return this.canRedo ? this.goTo(this.index + 1) : null;
+  }
+
+  /**
+   * Jump to any snapshot, returning the state to apply
+   */
+  goTo(index: number): T | null {
+    if (index < 0 || index >= this.entries.length) {
+      return null;
+    }
+
+    this.index = index;
+    // Never merge the next edit into a snapshot the user navigated to
+    this.lastRecordedAt = 0;
+    this.emit();
+    return deepClone(this.entries[index].state);
+  }
+
+  /**
+   * Listen for history changes
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) this.listeners.splice(index, 1);
+    };
+  }
+
+  private createEntry(state: T, label: string): StateHistoryEntry<T> {
+    return { state: deepClone(state), label, timestamp: new Date().toISOString() };
+  }
+
+  private emit(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.warn('[StateHistory] Error in history listener:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,181 @@
+// Bits stored in each output character and the offset that keeps them printable
+const BITS_PER_CHAR = 15;
+const CHAR_OFFSET = 32;
+
+// Reserved codes; dictionary entries start after them
+const LITERAL_8BIT = 0;
+const LITERAL_16BIT = 1;
+const END_OF_STREAM = 2;
+const FIRST_DICTIONARY_CODE = 3;
+
+/**
+ * Number of bits needed to write any code from 0 up to and including `maxCode`
+ */
+const bitsFor = (maxCode: number): number => {
+  let bits = 1;
+  while (1 << bits <= maxCode) {
+    bits++;
+  }
+  return bits;
+};
+
+/**
+ * Packs variable-width codes into characters, BITS_PER_CHAR bits at a time
+ */
+class BitWriter {
+  private chars: string[] = [];
+  private buffer = 0;
+  private used = 0;
+
+  write(value: number, bits: number): void {
+    for (let i = 0; i < bits; i++) {
+      this.buffer = (this.buffer << 1) | ((value >> i) & 1);
+      this.used++;
+      if (this.used === BITS_PER_CHAR) {
+        this.flush();
+      }
+    }
+  }
+
+  finish(): string {
+    if (this.used > 0) {
+      this.buffer <<= BITS_PER_CHAR - this.used;
+      this.flush();
+    }
+    return this.chars.join('');
+  }
+
+  private flush(): void {
+    this.chars.push(String.fromCharCode(this.buffer + CHAR_OFFSET));
+    this.buffer = 0;
+    this.used = 0;
+  }
+}
+
+/**
+ * Reads variable-width codes back out of a BitWriter string
+ */
+class BitReader {
+  private position = 0;
+  private buffer = 0;
+  private remaining = 0;
+
+  constructor(private input: string) {}
+
+  read(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      if (this.remaining === 0) {
+        if (this.position >= this.input.length) {
+          throw new Error('Compressed state is invalid: unexpected end of data');
+        }
+        this.buffer = this.input.charCodeAt(this.position++) - CHAR_OFFSET;
+        if (this.buffer < 0 || this.buffer >= 1 << BITS_PER_CHAR) {
+          throw new Error('Compressed state is invalid: unexpected character');
+        }
+        this.remaining = BITS_PER_CHAR;
+      }
+      this.remaining--;
+      value |= ((this.buffer >> this.remaining) & 1) << i;
+    }
+    return value;
+  }
+}
+
+/**
+ * Compress a string with an LZW-style codec
+ *
+ * Characters are added to the dictionary the first time they appear (sent as 8- or 16-bit
+ * literals), so any UTF-16 input works without a predefined alphabet. Codes grow in width
+ * with the dictionary and are packed 15 bits per character, so the output is a valid
+ * string for Web Storage and its length is what counts against storage quotas.
+ */
+export const compressString = (input: string): string => {
+  const dictionary = new Map<string, number>();
+  const newChars = new Set<string>();
+  let nextCode = FIRST_DICTIONARY_CODE;
+  // The decoder learns entries one token later, so widths follow its dictionary size
+  let decoderNextCode = FIRST_DICTIONARY_CODE;
+  let tokens = 0;
+  const writer = new BitWriter();
+
+  const emit = (phrase: string): void => {
+    const width = bitsFor(decoderNextCode);
+    if (newChars.has(phrase)) {
+      const charCode = phrase.charCodeAt(0);
+      const wide = charCode > 0xff;
+      writer.write(wide ? LITERAL_16BIT : LITERAL_8BIT, width);
+      writer.write(charCode, wide ? 16 : 8);
+      newChars.delete(phrase);
+      decoderNextCode++;
+    } else {
+      writer.write(dictionary.get(phrase) as number, width);
+    }
+
+    if (tokens > 0) {
+      decoderNextCode++;
+    }
+    tokens++;
+  };
+
+  let phrase = '';
+  for (let i = 0; i < input.length; i++) {
+    const char = input.charAt(i);
+    if (!dictionary.has(char)) {
+      dictionary.set(char, nextCode++);
+      newChars.add(char);
+    }
+
+    const extended = phrase + char;
+    if (dictionary.has(extended)) {
+      phrase = extended;
+    } else {
+      emit(phrase);
+      dictionary.set(extended, nextCode++);
+      phrase = char;
+    }
+  }
+
+  if (phrase !== '') {
+    emit(phrase);
+  }
+  writer.write(END_OF_STREAM, bitsFor(decoderNextCode));
+  return writer.finish();
+};
+
+/**
+ * Restore a string produced by compressString
+ */
+export const decompressString = (compressed: string): string => {
+  const dictionary: string[] = [];
+  let nextCode = FIRST_DICTIONARY_CODE;
+  let previous: string | null = null;
+  const output: string[] = [];
+  const reader = new BitReader(compressed);
+
+  for (;;) {
+    const code = reader.read(bitsFor(nextCode));
+    if (code === END_OF_STREAM) {
+      return output.join('');
+    }
+
+    let entry: string;
+    if (code === LITERAL_8BIT || code === LITERAL_16BIT) {
+      entry = String.fromCharCode(reader.read(code === LITERAL_16BIT ? 16 : 8));
+      dictionary[nextCode++] = entry;
+    } else if (code < nextCode && dictionary[code] !== undefined) {
+      entry = dictionary[code];
+    } else if (code === nextCode && previous !== null) {
+      // The phrase being defined by this very token
+      entry = previous + previous.charAt(0);
+    } else {
+      throw new Error(`Compressed state is invalid: unknown code ${code}`);
+    }
+
+    if (previous !== null) {
+      dictionary[nextCode++] = previous + entry.charAt(0);
+    }
+    output.push(entry);
+    previous = entry;
+  }
+};
@@ -0,0 +1,105 @@
+import { generateId } from '../utils';
+
+// Prefix for BroadcastChannel names and storage-event message keys
+const SYNC_CHANNEL_PREFIX = 'braindrive-plugin-state-sync';
+
+/**
+ * Message exchanged between tabs running the same plugin
+ */
+export interface StateSyncMessage {
+  type: 'save' | 'clear';
+  pluginId: string;
+  // Storage key of the module/instance that sent the message
+  scope: string;
+  sourceId: string;
+  savedAt: string;
+  // Revision of the sender's current state (0 after a clear)
+  revision: number;
+  state: any;
+}
+
+/**
+ * Cross-tab messaging for one plugin
+ *
+ * Uses BroadcastChannel when the browser supports it. Otherwise each message is written to a
+ * localStorage key, which other tabs observe through the `storage` event. Messages sent by
+ * this instance are never delivered back to it.
+ */
+export class CrossTabStateSync {
+  readonly sourceId: string = generateId();
+  private channelName: string;
+  private onMessage: (message: StateSyncMessage) => void;
+  private channel: BroadcastChannel | null = null;
+  private storageListener: ((event: StorageEvent) => void) | null = null;
+
+  constructor(pluginId: string, onMessage: (message: StateSyncMessage) => void) {
+    this.channelName = `${SYNC_CHANNEL_PREFIX}:${pluginId}`;
+    this.onMessage = onMessage;
+  }
+
+  /**
+   * Start listening for messages from other tabs
+   */
+  start(): void {
+    if (typeof window === 'undefined' || this.channel || this.storageListener) {
+      return;
+    }
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.channelName);
+      this.channel.onmessage = (event: MessageEvent) => this.receive(event.data);
+      return;
+    }
+
+    this.storageListener = (event: StorageEvent) => {
+      if (event.key === this.channelName && event.newValue) {
+        try {
+          this.receive(JSON.parse(event.newValue));
+        } catch (error) {
+          console.warn('[CrossTabStateSync] Ignoring malformed sync message:', error);
+        }
+      }
+    };
+    window.addEventListener('storage', this.storageListener);
+  }
+
+  /**
+   * Send a message to the other tabs
+   */
+  publish(message: Omit<StateSyncMessage, 'sourceId'>): void {
+    const outgoing: StateSyncMessage = { ...message, sourceId: this.sourceId };
+
+    try {
+      if (this.channel) {
+        this.channel.postMessage(outgoing);
+      } else if (this.storageListener) {
+        // The storage event only fires in other tabs, and only when the value changes
+        window.localStorage.setItem(this.channelName, JSON.stringify(outgoing));
+      }
+    } catch (error) {
+      console.warn('[CrossTabStateSync] Failed to publish sync message:', error);
+    }
+  }
+
+  /**
+   * Stop listening and release the channel
+   */
+  stop(): void {
+    if (this.channel) {
+      this.channel.close();
+      this.channel = null;
+    }
+
+    if (this.storageListener) {
+      window.removeEventListener('storage', this.storageListener);
+      this.storageListener = null;
+    }
+  }
+
+  private receive(message: StateSyncMessage): void {
+    if (!message || message.sourceId === this.sourceId) {
+      return;
+    }
+    this.onMessage(message);
+  }
+}
@@ -0,0 +1,139 @@
+import { StateFieldError } from '../types';
+import { formatValidationErrors } from './stateSchema';
+
+/**
+ * Raised when a state object does not satisfy the configured stateSchema
+ */
+export class PluginStateValidationError extends Error {
+  readonly errors: StateFieldError[];
+
+  constructor(errors: StateFieldError[]) {
+    super(`State validation failed: ${formatValidationErrors(errors)}`);
+    this.name = 'PluginStateValidationError';
+    this.errors = errors;
+    // Restore the prototype chain when compiling to ES5
+    Object.setPrototypeOf(this, PluginStateValidationError.prototype);
+  }
+}
+
+/**
+ * Raised when a stored state cannot be upgraded to the configured schema version
+ */
+export class PluginStateMigrationError extends Error {
+  readonly fromVersion: number;
+  readonly toVersion: number;
+
+  constructor(message: string, fromVersion: number, toVersion: number) {
+    super(message);
+    this.name = 'PluginStateMigrationError';
+    this.fromVersion = fromVersion;
+    this.toVersion = toVersion;
+    Object.setPrototypeOf(this, PluginStateMigrationError.prototype);
+  }
+}
+
+/**
+ * Raised when a JSON Patch operation cannot be applied
+ */
+export class PluginStatePatchError extends Error {
+  readonly operationIndex: number;
+
+  constructor(message: string, operationIndex: number) {
+    super(message);
+    this.name = 'PluginStatePatchError';
+    this.operationIndex = operationIndex;
+    Object.setPrototypeOf(this, PluginStatePatchError.prototype);
+  }
+}
+
+/**
+ * Raised when an encrypted state value cannot be decrypted with the plugin's key
+ */
+export class PluginStateDecryptionError extends Error {
+  readonly key: string;
+
+  constructor(message: string, key: string) {
+    super(message);
+    this.name = 'PluginStateDecryptionError';
+    this.key = key;
+    Object.setPrototypeOf(this, PluginStateDecryptionError.prototype);
+  }
+}
+
+/**
+ * Raised when a save expects a revision other than the one in storage, because another save
+ * (from this tab or another one) got there first
+ */
+export class PluginStateConflictError extends Error {
+  readonly expectedRevision: number;
+  readonly actualRevision: number;
+  // The stored state that won (null when it was cleared)
+  readonly currentState: any;
+
+  constructor(pluginId: string, expectedRevision: number, actualRevision: number, currentState: any) {
+    super(
+      `State conflict for "${pluginId}": expected revision ${expectedRevision} but the stored state is at revision ${actualRevision}`
+    );
+    this.name = 'PluginStateConflictError';
+    this.expectedRevision = expectedRevision;
+    this.actualRevision = actualRevision;
+    this.currentState = currentState;
+    Object.setPrototypeOf(this, PluginStateConflictError.prototype);
+  }
+}
+
+/**
+ * Raised when an export file cannot be imported: it is not an export, belongs to another
+ * plugin, or comes from a newer schema version
+ */
+export class PluginStateImportError extends Error {
+  constructor(message: string) {
+    super(`Import file invalid: ${message}`);
+    this.name = 'PluginStateImportError';
+    Object.setPrototypeOf(this, PluginStateImportError.prototype);
+  }
+}
+
+/**
+ * Raised when a beforeSave or beforeRestore hook cancels an operation
+ */
+export class PluginStateCancelledError extends Error {
+  readonly operation: string;
+
+  constructor(operation: string, hookName: string) {
+    super(`${operation} cancelled by a ${hookName} hook`);
+    this.name = 'PluginStateCancelledError';
+    this.operation = operation;
+    Object.setPrototypeOf(this, PluginStateCancelledError.prototype);
+  }
+}
+
+/**
+ * Raised when the storage adapter fails to write an entry
+ */
+export class PluginStateStorageError extends Error {
+  readonly reason: unknown;
+
+  constructor(message: string, reason: unknown) {
+    super(message);
+    this.name = 'PluginStateStorageError';
+    this.reason = reason;
+    Object.setPrototypeOf(this, PluginStateStorageError.prototype);
+  }
+}
+
+/**
+ * Raised when a save could not reach storage and was queued to be retried
+ */
+export class PluginStateSaveQueuedError extends Error {
+  readonly retryable = true;
+  readonly pendingSaves: number;
+
+  constructor(pluginId: string, pendingSaves: number, reason: unknown) {
+    const detail = reason instanceof Error ? reason.message : String(reason);
+    super(`Save for "${pluginId}" queued for retry after a network or storage failure (${pendingSaves} pending): ${detail}`);
+    this.name = 'PluginStateSaveQueuedError';
+    this.pendingSaves = pendingSaves;
+    Object.setPrototypeOf(this, PluginStateSaveQueuedError.prototype);
+  }
+}
@@ -0,0 +1,130 @@
+import { StateKeyProvider } from '../types';
+import { getSubtleCrypto } from './stateEncryption';
+
+/**
+ * Generate a non-extractable AES-GCM key
+ */
+const generateStateKey = (): Promise<CryptoKey> => {
+  return getSubtleCrypto().generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']) as Promise<CryptoKey>;
+};
+
+/**
+ * Key provider that generates one key per plugin and keeps it in memory. Anything encrypted
+ * with it becomes unreadable once the provider is gone, so it suits tests and session state.
+ */
+export class MemoryKeyProvider implements StateKeyProvider {
+  private keys: { [pluginId: string]: Promise<CryptoKey> } = {};
+
+  getKey(pluginId: string): Promise<CryptoKey> {
+    if (!this.keys[pluginId]) {
+      this.keys[pluginId] = generateStateKey();
+    }
+    return this.keys[pluginId];
+  }
+}
+
+/**
+ * Key provider that generates one non-extractable key per plugin and keeps it in IndexedDB,
+ * so persistent state can be decrypted after a reload while the key itself can never be read
+ * by script. Falls back to memory when IndexedDB is unavailable.
+ */
+export class IndexedDBKeyProvider implements StateKeyProvider {
+  private databaseName: string;
+  private storeName: string;
+  private keys: { [pluginId: string]: Promise<CryptoKey> } = {};
+  private fallback = new MemoryKeyProvider();
+
+  constructor(databaseName: string = 'braindrive-plugin-state-keys', storeName: string = 'keys') {
+    this.databaseName = databaseName;
+    this.storeName = storeName;
+  }
+
+  getKey(pluginId: string): Promise<CryptoKey> {
+    if (!this.keys[pluginId]) {
+      this.keys[pluginId] = this.loadOrCreateKey(pluginId);
+      // Allow a later call to retry after a failure
+      this.keys[pluginId].catch(() => {
+        delete this.keys[pluginId];
+      });
+    }
+    return this.keys[pluginId];
+  }
+
+  private async loadOrCreateKey(pluginId: string): Promise<CryptoKey> {
+    let database: IDBDatabase;
+    try {
+      database = await this.openDatabase();
+    } catch (error) {
+      console.warn('[IndexedDBKeyProvider] IndexedDB unavailable, keeping keys in memory:', error);
+      return this.fallback.getKey(pluginId);
+    }
+
+    try {
+      const existing = await this.request<CryptoKey | undefined>(database, 'readonly', store => store.get(pluginId));
+      if (existing) {
+        return existing;
+      }
+
+      // add() rather than put(): when another tab stored a key for the plugin since the read,
+      // that key wins, or whatever one of the tabs encrypts could never be decrypted again
+      const key = await generateStateKey();
+      try {
+        await this.request(database, 'readwrite', store => store.add(key, pluginId));
+        return key;
+      } catch (error) {
+        if (!(error instanceof DOMException) || error.name !== 'ConstraintError') {
+          throw error;
+        }
+      }
+
+      const stored = await this.request<CryptoKey | undefined>(database, 'readonly', store => store.get(pluginId));
+      if (!stored) {
+        throw new Error(`Encryption key for "${pluginId}" could not be stored or read`);
+      }
+      return stored;
+    } finally {
+      database.close();
+    }
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    return new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB storage not available in this environment'));
+        return;
+      }
+
+      const openRequest = indexedDB.open(this.databaseName, 1);
+      openRequest.onupgradeneeded = () => {
+        if (!openRequest.result.objectStoreNames.contains(this.storeName)) {
+          openRequest.result.createObjectStore(this.storeName);
+        }
+      };
+      openRequest.onsuccess = () => resolve(openRequest.result);
+      openRequest.onerror = () => reject(openRequest.error || new Error('Failed to open IndexedDB database'));
+    });
+  }
+
+  private request<R>(
+    database: IDBDatabase,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<R> {
+    return new Promise<R>((resolve, reject) => {
+      const transaction = database.transaction(this.storeName, mode);
+      const request = run(transaction.objectStore(this.storeName));
+      const fail = () => reject(request.error || transaction.error || new Error('IndexedDB request failed'));
+
+      if (mode === 'readonly') {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = fail;
+        return;
+      }
+
+      // A key only counts as stored once its transaction commits
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = fail;
+      transaction.onabort = fail;
+    });
+  }
+}
@@ -0,0 +1,82 @@
+import { StateMigration } from '../types';
+import { PluginStateMigrationError } from './errors';
+
+// Schema version assumed for configs and stored states that do not declare one
+export const DEFAULT_SCHEMA_VERSION = 1;
+
+/**
+ * Plan the chain of migrations leading from one version to another
+ *
+ * Each step takes the migration starting at the current version that gets closest to the
+ * target without passing it. Throws when no chain reaches the target.
+ */
+export const planMigrations = (
+  fromVersion: number,
+  toVersion: number,
+  migrations: StateMigration[] = []
+): StateMigration[] => {
+  if (fromVersion > toVersion) {
+    throw new PluginStateMigrationError(
+      `Stored state version ${fromVersion} is newer than schema version ${toVersion}`,
+      fromVersion,
+      toVersion
+    );
+  }
+
+  const plan: StateMigration[] = [];
+  let current = fromVersion;
+
+  while (current < toVersion) {
+    let next: StateMigration | null = null;
+    for (let i = 0; i < migrations.length; i++) {
+      const migration = migrations[i];
+      if (migration.from === current && migration.to > current && migration.to <= toVersion) {
+        if (!next || migration.to > next.to) {
+          next = migration;
+        }
+      }
+    }
+
+    if (!next) {
+      throw new PluginStateMigrationError(
+        `No migration path from state version ${fromVersion} to ${toVersion} (stuck at version ${current})`,
+        fromVersion,
+        toVersion
+      );
+    }
+
+    plan.push(next);
+    current = next.to;
+  }
+
+  return plan;
+};
+
+/**
+ * Run the migration chain from one version to another
+ */
+export const migrateState = async (
+  state: any,
+  fromVersion: number,
+  toVersion: number,
+  migrations: StateMigration[] = []
+): Promise<any> => {
+  const plan = planMigrations(fromVersion, toVersion, migrations);
+
+  let migrated = state;
+  for (let i = 0; i < plan.length; i++) {
+    const step = plan[i];
+    try {
+      migrated = await step.migrate(migrated);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new PluginStateMigrationError(
+        `Migration from state version ${step.from} to ${step.to} failed: ${reason}`,
+        step.from,
+        step.to
+      );
+    }
+  }
+
+  return migrated;
+};
@@ -0,0 +1,248 @@
+import { StateStorageAdapter } from '../types';
+
+/**
+ * A storage entry written by a save
+ */
+export interface QueuedWrite {
+  key: string;
+  value: string;
+}
+
+/**
+ * Entries written together by one save, waiting to be retried
+ */
+interface QueuedSave {
+  items: QueuedWrite[];
+  queuedAt: string;
+  attempts: number;
+}
+
+/**
+ * Options for a save queue
+ */
+export interface SaveQueueOptions {
+  // Delay before the first retry (in ms); every further attempt doubles it
+  baseDelay?: number;
+  // Upper bound for the delay between retries (in ms)
+  maxDelay?: number;
+}
+
+/**
+ * Queue of saves that failed to reach storage
+ *
+ * Queued saves are written in order and retried with exponential backoff, and right away when
+ * the browser comes back online. A save that writes the same entries as the save queued just
+ * before it replaces that save, so only the latest state is retried. The queue keeps itself in
+ * its own storage entry, holding the encoded (and encrypted) values, so it survives a reload.
+ */
+export class SaveQueue {
+  private entries: QueuedSave[] = [];
+  private storage: StateStorageAdapter;
+  private storageKey: string;
+  private write: (items: QueuedWrite[]) => Promise<void>;
+  private isRetryable: (error: unknown) => boolean;
+  private onChange: (count: number) => void;
+  private baseDelay: number;
+  private maxDelay: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<unknown> | null = null;
+  private onlineListener: (() => void) | null = null;
+  private loaded: Promise<void> = Promise.resolve();
+  private stopped = false;
+
+  constructor(
+    storage: StateStorageAdapter,
+    storageKey: string,
+    write: (items: QueuedWrite[]) => Promise<void>,
+    isRetryable: (error: unknown) => boolean,
+    onChange: (count: number) => void,
+    options: SaveQueueOptions = {}
+  ) {
+    this.storage = storage;
+    this.storageKey = storageKey;
+    this.write = write;
+    this.isRetryable = isRetryable;
+    this.onChange = onChange;
+    this.baseDelay = options.baseDelay !== undefined ? options.baseDelay : 1000;
+    this.maxDelay = options.maxDelay !== undefined ? options.maxDelay : 60000;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Pick up the saves queued before a reload and start retrying them
+   */
+  start(): Promise<void> {
+    this.stopped = false;
+    if (typeof window !== 'undefined' && !this.onlineListener) {
+      this.onlineListener = () => {
+        this.flush().catch(error => console.warn('[SaveQueue] Retry failed:', error));
+      };
+      window.addEventListener('online', this.onlineListener);
+    }
+
+    this.loaded = this.load();
+    return this.loaded;
+  }
+
+  /**
+   * Resolves once the saves queued before a reload are loaded; a new save written before
+   * then could be overwritten by an older queued one
+   */
+  ready(): Promise<void> {
+    return this.loaded;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const raw = await this.storage.getItem(this.storageKey);
+      const saved = raw !== null ? JSON.parse(raw) : [];
+      this.entries = Array.isArray(saved) ? [...saved, ...this.entries] : this.entries;
+    } catch (error) {
+      console.warn('[SaveQueue] Ignoring unreadable save queue:', error);
+    }
+
+    if (this.entries.length > 0) {
+      this.onChange(this.entries.length);
+      this.scheduleRetry();
+    }
+  }
+
+  /**
+   * Stop retrying; queued saves stay in storage for the next start()
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.onlineListener) {
+      window.removeEventListener('online', this.onlineListener);
+      this.onlineListener = null;
+    }
+  }
+
+  /**
+   * Latest queued value of a storage entry, or null when no queued save writes it
+   */
+  getPendingValue(key: string): string | null {
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      for (const item of this.entries[i].items) {
+        if (item.key === key) {
+          return item.value;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Queue a save, replacing the last queued save when it writes no other entries
+   */
+  async enqueue(items: QueuedWrite[]): Promise<void> {
+    const entry: QueuedSave = { items, queuedAt: new Date().toISOString(), attempts: 0 };
+    const last = this.entries[this.entries.length - 1];
+    const coalesce = last && last.items.every(queued => items.some(item => item.key === queued.key));
+
+    if (coalesce) {
+      // Keep the attempt count so the backoff is not reset by every new save
+      entry.attempts = last.attempts;
+      this.entries[this.entries.length - 1] = entry;
+    } else {
+      this.entries.push(entry);
+    }
+
+    await this.persist();
+    this.onChange(this.entries.length);
+    if (this.timer === null && !this.flushing) {
+      this.scheduleRetry();
+    }
+  }
+
+  /**
+   * Write queued saves in order until the queue is empty or a write fails
+   *
+   * Resolves with null once everything is written, or with the error of a failed write (the
+   * save stays queued and a retry is scheduled). A save that fails with an error that cannot
+   * be retried is dropped.
+   */
+  flush(): Promise<unknown> {
+    if (this.flushing) {
+      // A save queued while the running flush finishes must still be written
+      return this.flushing.then(() => this.flush());
+    }
+
+    this.flushing = this.writeEntries();
+    const done = () => {
+      this.flushing = null;
+    };
+    this.flushing.then(done, done);
+    return this.flushing;
+  }
+
+  private async writeEntries(): Promise<unknown> {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.entries.length > 0) {
+      const entry = this.entries[0];
+      try {
+        await this.write(entry.items);
+      } catch (error) {
+        if (this.isRetryable(error)) {
+          entry.attempts++;
+          await this.persist();
+          this.scheduleRetry();
+          return error;
+        }
+        console.warn('[SaveQueue] Dropping queued save that cannot be written:', error);
+      }
+
+      // The entry may have been replaced by a newer save while it was being written
+      const index = this.entries.indexOf(entry);
+      if (index > -1) {
+        this.entries.splice(index, 1);
+      }
+      await this.persist();
+      this.onChange(this.entries.length);
+    }
+    return null;
+  }
+
+  private scheduleRetry(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.stopped) {
+      return;
+    }
+
+    const attempts = this.entries.length > 0 ? this.entries[0].attempts : 0;
+    const delay = Math.min(this.maxDelay, this.baseDelay * Math.pow(2, attempts));
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush().catch(error => console.warn('[SaveQueue] Retry failed:', error));
+    }, delay);
+  }
+
+  /**
+   * Keep the queue in storage; when that fails too it lives on in memory for this session
+   */
+  private async persist(): Promise<void> {
+    try {
+      if (this.entries.length === 0) {
+        await this.storage.removeItem(this.storageKey);
+      } else {
+        await this.storage.setItem(this.storageKey, JSON.stringify(this.entries));
+      }
+    } catch (error) {
+      console.warn('[SaveQueue] Failed to persist save queue:', error);
+    }
+  }
+}
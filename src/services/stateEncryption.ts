@@ -0,0 +1,138 @@
+import { PluginStateDecryptionError } from './errors';
+import { isPlainObject } from './stateSchema';
+
+// Cipher used for encrypted values, also stored with them as a marker
+const ENCRYPTION_ALGORITHM = 'AES-GCM';
+// Recommended IV length for AES-GCM (in bytes)
+const IV_LENGTH = 12;
+
+/**
+ * Stored form of an encrypted state value
+ */
+export interface EncryptedStateValue {
+  $encrypted: typeof ENCRYPTION_ALGORITHM;
+  // Base64 initialization vector and ciphertext (which includes the GCM authentication tag)
+  iv: string;
+  data: string;
+}
+
+/**
+ * Check whether a stored value is an encrypted value written by encryptStateKeys
+ */
+export const isEncryptedValue = (value: any): value is EncryptedStateValue => {
+  return isPlainObject(value) &&
+    value.$encrypted === ENCRYPTION_ALGORITHM &&
+    typeof value.iv === 'string' &&
+    typeof value.data === 'string';
+};
+
+/**
+ * Get the Web Crypto implementation, or fail when the environment has none
+ */
+export const getSubtleCrypto = (): SubtleCrypto => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('Web Crypto not available in this environment (encryptedKeys require a secure context)');
+  }
+  return crypto.subtle;
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (encoded: string): Uint8Array => {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Bind a ciphertext to its plugin and key, so values cannot be swapped between fields or plugins
+ */
+const getAdditionalData = (pluginId: string, key: string): Uint8Array => {
+  return new TextEncoder().encode(`${pluginId}:${key}`);
+};
+
+/**
+ * Replace the listed top-level keys of a state with their AES-GCM ciphertext
+ *
+ * Keys that are missing from the state are skipped. The input state is not modified.
+ */
+export const encryptStateKeys = async (
+  state: { [key: string]: any },
+  keys: string[],
+  cryptoKey: CryptoKey,
+  pluginId: string
+): Promise<{ [key: string]: any }> => {
+  const subtle = getSubtleCrypto();
+  const result: { [key: string]: any } = { ...state };
+
+  for (const key of keys) {
+    if (result[key] === undefined) {
+      continue;
+    }
+
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await subtle.encrypt(
+      { name: ENCRYPTION_ALGORITHM, iv, additionalData: getAdditionalData(pluginId, key) },
+      cryptoKey,
+      new TextEncoder().encode(JSON.stringify(result[key]))
+    );
+
+    const encrypted: EncryptedStateValue = {
+      $encrypted: ENCRYPTION_ALGORITHM,
+      iv: toBase64(iv),
+      data: toBase64(new Uint8Array(ciphertext))
+    };
+    result[key] = encrypted;
+  }
+
+  return result;
+};
+
+/**
+ * Decrypt every encrypted top-level value of a stored state
+ *
+ * Values are decrypted whether or not their key is still listed in encryptedKeys, so turning
+ * encryption off for a key does not strand data saved while it was on.
+ */
+export const decryptStateKeys = async (
+  state: { [key: string]: any },
+  getKey: () => Promise<CryptoKey>,
+  pluginId: string
+): Promise<{ [key: string]: any }> => {
+  const encryptedKeys = Object.keys(state).filter(key => isEncryptedValue(state[key]));
+  if (encryptedKeys.length === 0) {
+    return state;
+  }
+
+  const subtle = getSubtleCrypto();
+  const cryptoKey = await getKey();
+  const result: { [key: string]: any } = { ...state };
+
+  for (const key of encryptedKeys) {
+    const encrypted: EncryptedStateValue = result[key];
+    try {
+      const plaintext = await subtle.decrypt(
+        { name: ENCRYPTION_ALGORITHM, iv: fromBase64(encrypted.iv), additionalData: getAdditionalData(pluginId, key) },
+        cryptoKey,
+        fromBase64(encrypted.data)
+      );
+      result[key] = JSON.parse(new TextDecoder().decode(plaintext));
+    } catch (error) {
+      throw new PluginStateDecryptionError(
+        `Failed to decrypt "${key}" for "${pluginId}": the encryption key does not match or the data was modified`,
+        key
+      );
+    }
+  }
+
+  return result;
+};
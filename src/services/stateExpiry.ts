@@ -0,0 +1,87 @@
+import { StateSchema } from '../types';
+import { isPlainObject } from './stateSchema';
+
+/**
+ * Map every path that can expire to its time-to-live (in ms)
+ *
+ * Field ttls apply at any depth reachable through `properties`. The default ttl applies to
+ * top-level keys without a ttl of their own; `ttl: null` opts a key out of it.
+ */
+export const collectTtlPaths = (schema: StateSchema = {}, defaultTtl?: number): { [path: string]: number } => {
+  const ttls: { [path: string]: number } = {};
+
+  const visit = (properties: StateSchema, parent: string): void => {
+    Object.keys(properties).forEach(key => {
+      const field = properties[key];
+      const path = parent ? `${parent}.${key}` : key;
+      const ttl = field.ttl !== undefined ? field.ttl : parent ? null : defaultTtl;
+      if (typeof ttl === 'number') {
+        ttls[path] = ttl;
+      }
+      if (field.properties) {
+        visit(field.properties, path);
+      }
+    });
+  };
+
+  visit(schema, '');
+  return ttls;
+};
+
+/**
+ * Check whether a change to any of `changedPaths` touches `path` (the path itself, something
+ * inside it, or a parent that was replaced as a whole)
+ */
+export const isPathTouched = (path: string, changedPaths: string[]): boolean => {
+  return changedPaths.some(changed =>
+    changed === '' ||
+    changed === path ||
+    changed.indexOf(`${path}.`) === 0 ||
+    path.indexOf(`${changed}.`) === 0
+  );
+};
+
+/**
+ * Remove the value at a dot-separated path, returning whether anything was removed
+ */
+const removePath = (state: { [key: string]: any }, path: string): boolean => {
+  const segments = path.split('.');
+  let parent: any = state;
+  for (let i = 0; i < segments.length - 1; i++) {
+    parent = parent[segments[i]];
+    if (!isPlainObject(parent)) {
+      return false;
+    }
+  }
+
+  const key = segments[segments.length - 1];
+  if (!Object.prototype.hasOwnProperty.call(parent, key)) {
+    return false;
+  }
+  delete parent[key];
+  return true;
+};
+
+/**
+ * Drop every value whose time-to-live has run out, returning the expired paths
+ *
+ * `touchedAt` holds the last change time of each path; paths without one are kept. The state
+ * is modified in place.
+ */
+export const removeExpiredPaths = (
+  state: { [key: string]: any },
+  ttls: { [path: string]: number },
+  touchedAt: { [path: string]: string },
+  now: number = Date.now()
+): string[] => {
+  const expired: string[] = [];
+
+  Object.keys(ttls).forEach(path => {
+    const touched = touchedAt[path] ? new Date(touchedAt[path]).getTime() : now;
+    if (now - touched > ttls[path] && removePath(state, path)) {
+      expired.push(path);
+    }
+  });
+
+  return expired;
+};
@@ -0,0 +1,61 @@
+import { PluginStateExport } from '../types';
+import { PluginStateImportError } from './errors';
+import { isPlainObject } from './stateSchema';
+
+// Marks a JSON file as a plugin state export
+export const EXPORT_FORMAT = 'braindrive-plugin-state';
+
+// Layout version of export files written by this version of the service
+export const EXPORT_FORMAT_VERSION = 1;
+
+/**
+ * Wrap a plugin's state in an export envelope
+ */
+export const createStateExport = <T>(pluginId: string, schemaVersion: number, data: T): PluginStateExport<T> => ({
+  format: EXPORT_FORMAT,
+  formatVersion: EXPORT_FORMAT_VERSION,
+  pluginId,
+  schemaVersion,
+  exportedAt: new Date().toISOString(),
+  data
+});
+
+/**
+ * Read an export envelope from the contents of an export file (or an already parsed envelope),
+ * checking its layout but not its data
+ */
+export const parseStateExport = (file: string | PluginStateExport): PluginStateExport => {
+  let parsed: any = file;
+  if (typeof file === 'string') {
+    try {
+      parsed = JSON.parse(file);
+    } catch (error) {
+      throw new PluginStateImportError('the file is not valid JSON');
+    }
+  }
+
+  if (!isPlainObject(parsed) || parsed.format !== EXPORT_FORMAT) {
+    throw new PluginStateImportError('the file is not a plugin state export');
+  }
+  if (typeof parsed.formatVersion !== 'number' || parsed.formatVersion > EXPORT_FORMAT_VERSION) {
+    throw new PluginStateImportError(`export format version ${parsed.formatVersion} is not supported`);
+  }
+  if (typeof parsed.pluginId !== 'string' || !parsed.pluginId) {
+    throw new PluginStateImportError('the export has no plugin id');
+  }
+  if (typeof parsed.schemaVersion !== 'number' || !(parsed.schemaVersion >= 1)) {
+    throw new PluginStateImportError('the export has no valid schema version');
+  }
+  if (!isPlainObject(parsed.data)) {
+    throw new PluginStateImportError('the export holds no state data');
+  }
+
+  return {
+    format: parsed.format,
+    formatVersion: parsed.formatVersion,
+    pluginId: parsed.pluginId,
+    schemaVersion: parsed.schemaVersion,
+    exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+    data: parsed.data
+  };
+};
@@ -0,0 +1,64 @@
+import { StateMiddleware } from '../types';
+import { removePathValue, setPathValue } from './statePatch';
+
+/**
+ * Log every state passing through the pipeline with its serialized size
+ *
+ * Register it last to log what actually reaches storage and what comes straight out of it.
+ */
+export const createLoggingMiddleware = (
+  log: (message: string) => void = message => console.log(message)
+): StateMiddleware => ({
+  name: 'logging',
+  save: (state, context) => {
+    log(`[PluginState:${context.pluginId}] ${context.operation} → storage (${JSON.stringify(state).length} bytes)`);
+    return state;
+  },
+  restore: (state, context) => {
+    log(`[PluginState:${context.pluginId}] ${context.operation} ← storage (${JSON.stringify(state).length} bytes)`);
+    return state;
+  }
+});
+
+/**
+ * Keep values such as tokens or passwords out of storage by dropping them before each save
+ *
+ * Paths are dot-separated, like 'account.apiToken'. A redacted path that the stateSchema
+ * requires is filled with its default again when the state is validated.
+ */
+export const createRedactionMiddleware = (paths: string[]): StateMiddleware => ({
+  name: 'redaction',
+  save: state => paths.reduce((redacted, path) => removePathValue(redacted, path), state)
+});
+
+/**
+ * Reject saves whose serialized state is larger than maxBytes
+ *
+ * Unlike maxStateSize, which applies to the stored (compressed, encrypted) form, this limits
+ * the plain state, and it runs before the state is encoded.
+ */
+export const createSizeLimitMiddleware = (maxBytes: number): StateMiddleware => {
+  if (!(maxBytes > 0)) {
+    throw new Error('Size limit middleware invalid: maxBytes must be a positive number');
+  }
+
+  return {
+    name: 'sizeLimit',
+    save: state => {
+      const size = JSON.stringify(state).length;
+      if (size > maxBytes) {
+        throw new Error(`State size (${size} bytes) exceeds maximum allowed size (${maxBytes} bytes)`);
+      }
+      return state;
+    }
+  };
+};
+
+/**
+ * Stamp every saved state with the time of the save, as an ISO 8601 string at a dot-separated
+ * path (e.g. 'demoData.timestamp')
+ */
+export const createTimestampMiddleware = (path: string = 'updatedAt'): StateMiddleware => ({
+  name: 'timestamp',
+  save: state => setPathValue(state, path, new Date().toISOString())
+});
@@ -0,0 +1,356 @@
+import { JsonPatchOperation, StateDiffEntry } from '../types';
+import { deepClone } from '../utils';
+import { PluginStatePatchError } from './errors';
+import { isPlainObject, joinPath } from './stateSchema';
+
+// Keys that reach into an object's prototype when assigned, so they are never written
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Reject keys that would change an object's prototype instead of storing data
+ */
+const assertSafeKey = (key: string): void => {
+  if (UNSAFE_KEYS.indexOf(key) !== -1) {
+    throw new Error(`Key "${key}" is invalid: it is reserved for object prototypes`);
+  }
+};
+
+/**
+ * Deep-merge a partial update into a state
+ *
+ * Plain objects are merged key by key; arrays and other values replace what was there.
+ * Keys whose value is undefined are ignored, so a partial never deletes data.
+ */
+export const deepMerge = <T>(target: T, partial: any): T => {
+  if (!isPlainObject(partial)) {
+    return partial === undefined ? target : deepClone(partial);
+  }
+
+  const base: { [key: string]: any } = isPlainObject(target) ? { ...target } : {};
+  Object.keys(partial).forEach(key => {
+    assertSafeKey(key);
+    if (partial[key] !== undefined) {
+      base[key] = deepMerge(base[key], partial[key]);
+    }
+  });
+  return base as T;
+};
+
+/**
+ * Compare two JSON-compatible values structurally
+ */
+export const deepEqual = (a: any, b: any): boolean => {
+  if (a === b) {
+    return true;
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]));
+  }
+
+  return false;
+};
+
+/**
+ * List the dot-separated paths whose values differ between two states
+ *
+ * Objects and arrays are compared member by member, so a one-character edit to
+ * `demoData.userInput` reports just that path.
+ */
+export const collectChangedPaths = (previous: any, next: any, path: string = ''): string[] => {
+  // Treat a missing root as an empty object so a first save reports its top-level keys
+  const before: { [key: string]: any } = path === '' && previous == null ? {} : previous;
+  const after: { [key: string]: any } = path === '' && next == null ? {} : next;
+
+  const bothArrays = Array.isArray(before) && Array.isArray(after);
+  if (!bothArrays && !(isPlainObject(before) && isPlainObject(after))) {
+    return deepEqual(before, after) ? [] : [path];
+  }
+
+  let keys: string[];
+  if (bothArrays) {
+    keys = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      keys.push(String(i));
+    }
+  } else {
+    keys = Object.keys(before).concat(
+      Object.keys(after).filter(key => !Object.prototype.hasOwnProperty.call(before, key))
+    );
+  }
+
+  const changed: string[] = [];
+  keys.forEach(key => {
+    changed.push(...collectChangedPaths(before[key], after[key], joinPath(path, key)));
+  });
+  return changed;
+};
+
+/**
+ * Compare two states structurally, listing the fields added, removed and changed by the second
+ *
+ * Objects and arrays are compared member by member like in collectChangedPaths; a value that
+ * changes type (e.g. from an object to a string) is reported as one change.
+ */
+export const diffStates = (previous: any, next: any, path: string = ''): StateDiffEntry[] => {
+  // Treat a missing root as an empty object so every top-level key of the other state shows
+  const before: { [key: string]: any } = path === '' && previous == null ? {} : previous;
+  const after: { [key: string]: any } = path === '' && next == null ? {} : next;
+
+  const bothArrays = Array.isArray(before) && Array.isArray(after);
+  if (!bothArrays && !(isPlainObject(before) && isPlainObject(after))) {
+    return deepEqual(before, after) ? [] : [{ path, type: 'changed', previous: before, next: after }];
+  }
+
+  const has = (container: any, key: string): boolean =>
+    Object.prototype.hasOwnProperty.call(container, key) && container[key] !== undefined;
+  const keys: string[] = Object.keys(before).concat(
+    Object.keys(after).filter(key => !Object.prototype.hasOwnProperty.call(before, key))
+  );
+
+  const entries: StateDiffEntry[] = [];
+  keys.forEach(key => {
+    const keyPath = joinPath(path, key);
+    if (!has(before, key)) {
+      if (has(after, key)) {
+        entries.push({ path: keyPath, type: 'added', next: deepClone(after[key]) });
+      }
+    } else if (!has(after, key)) {
+      entries.push({ path: keyPath, type: 'removed', previous: deepClone(before[key]) });
+    } else {
+      entries.push(...diffStates(before[key], after[key], keyPath));
+    }
+  });
+  return entries;
+};
+
+/**
+ * Read the value at a dot-separated path (the whole state for ''), or undefined when the path
+ * does not exist
+ */
+export const getPathValue = (state: any, path: string): any => {
+  if (path === '') {
+    return state;
+  }
+
+  let value = state;
+  for (const segment of path.split('.')) {
+    if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, segment)) {
+      return undefined;
+    }
+    value = value[segment];
+  }
+  return value;
+};
+
+/**
+ * Copy a state with the value at a dot-separated path replaced, creating missing objects on
+ * the way (only the objects along the path are copied)
+ */
+export const setPathValue = <T>(state: T, path: string, value: any): T => {
+  const [segment, ...rest] = path.split('.');
+  assertSafeKey(segment);
+  const base: { [key: string]: any } = isPlainObject(state) ? { ...state } : {};
+  base[segment] = rest.length === 0 ? value : setPathValue(base[segment], rest.join('.'), value);
+  return base as T;
+};
+
+/**
+ * Copy a state without the value at a dot-separated path (the state itself when the path
+ * does not exist)
+ */
+export const removePathValue = <T>(state: T, path: string): T => {
+  const [segment, ...rest] = path.split('.');
+  if (!isPlainObject(state) || !Object.prototype.hasOwnProperty.call(state, segment)) {
+    return state;
+  }
+
+  const base: { [key: string]: any } = { ...state };
+  if (rest.length === 0) {
+    delete base[segment];
+  } else {
+    base[segment] = removePathValue(base[segment], rest.join('.'));
+  }
+  return base as T;
+};
+
+/**
+ * Split a JSON Pointer (RFC 6901) into unescaped tokens
+ */
+export const parseJsonPointer = (pointer: string): string[] => {
+  if (pointer === '') {
+    return [];
+  }
+
+  if (pointer.charAt(0) !== '/') {
+    throw new Error(`JSON Pointer "${pointer}" is invalid: it must start with "/"`);
+  }
+
+  const tokens = pointer
+    .substring(1)
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+  tokens.forEach(assertSafeKey);
+  return tokens;
+};
+
+/**
+ * Convert a JSON Pointer into the dot-separated path used by validation and listeners
+ */
+export const pointerToPath = (pointer: string): string => parseJsonPointer(pointer).join('.');
+
+/**
+ * Resolve the container holding the last token of a pointer
+ */
+const resolveParent = (document: any, tokens: string[]): any => {
+  let current = document;
+  for (let i = 0; i < tokens.length - 1; i++) {
+    if (current === null || typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, tokens[i])) {
+      throw new Error('path does not exist');
+    }
+    current = current[tokens[i]];
+  }
+
+  if (current === null || typeof current !== 'object') {
+    throw new Error('parent is not an object or array');
+  }
+  return current;
+};
+
+/**
+ * Parse an array index token, allowing "-" (end of array) when appending
+ */
+const parseArrayIndex = (token: string, length: number, allowEnd: boolean): number => {
+  if (allowEnd && token === '-') {
+    return length;
+  }
+
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) {
+    throw new Error(`"${token}" is not a valid array index`);
+  }
+
+  const index = Number(token);
+  if (index > length || (!allowEnd && index === length)) {
+    throw new Error(`array index ${index} is out of bounds`);
+  }
+  return index;
+};
+
+const getValue = (document: any, tokens: string[]): any => {
+  if (tokens.length === 0) {
+    return document;
+  }
+
+  const parent = resolveParent(document, tokens);
+  const token = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    return parent[parseArrayIndex(token, parent.length, false)];
+  }
+  if (!Object.prototype.hasOwnProperty.call(parent, token)) {
+    throw new Error('path does not exist');
+  }
+  return parent[token];
+};
+
+const addValue = (document: any, tokens: string[], value: any): any => {
+  if (tokens.length === 0) {
+    return value;
+  }
+
+  const parent = resolveParent(document, tokens);
+  const token = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(parseArrayIndex(token, parent.length, true), 0, value);
+  } else {
+    parent[token] = value;
+  }
+  return document;
+};
+
+const removeValue = (document: any, tokens: string[]): any => {
+  if (tokens.length === 0) {
+    throw new Error('the document root cannot be removed');
+  }
+
+  const parent = resolveParent(document, tokens);
+  const token = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(parseArrayIndex(token, parent.length, false), 1);
+  } else {
+    if (!Object.prototype.hasOwnProperty.call(parent, token)) {
+      throw new Error('path does not exist');
+    }
+    delete parent[token];
+  }
+  return document;
+};
+
+/**
+ * Apply RFC 6902 operations to a document
+ *
+ * The document is cloned first and the whole patch fails if any operation fails, so the
+ * input is never left half-patched.
+ */
+export const applyJsonPatch = <T>(document: T, operations: JsonPatchOperation[]): T => {
+  let result: any = deepClone(document);
+
+  operations.forEach((operation, index) => {
+    try {
+      const tokens = parseJsonPointer(operation.path);
+
+      switch (operation.op) {
+        case 'add':
+          result = addValue(result, tokens, deepClone(operation.value));
+          break;
+        case 'remove':
+          result = removeValue(result, tokens);
+          break;
+        case 'replace':
+          getValue(result, tokens);
+          result = addValue(tokens.length > 0 ? removeValue(result, tokens) : result, tokens, deepClone(operation.value));
+          break;
+        case 'move': {
+          if (operation.from === undefined) {
+            throw new Error('"from" is required');
+          }
+          if (operation.path.indexOf(`${operation.from}/`) === 0) {
+            throw new Error('a value cannot be moved into one of its children');
+          }
+          const from = parseJsonPointer(operation.from);
+          const value = getValue(result, from);
+          result = addValue(removeValue(result, from), tokens, value);
+          break;
+        }
+        case 'copy': {
+          if (operation.from === undefined) {
+            throw new Error('"from" is required');
+          }
+          const value = getValue(result, parseJsonPointer(operation.from));
+          result = addValue(result, tokens, deepClone(value));
+          break;
+        }
+        case 'test':
+          if (!deepEqual(getValue(result, tokens), operation.value)) {
+            throw new Error('test failed: value does not match');
+          }
+          break;
+        default:
+          throw new Error(`unknown operation "${(operation as JsonPatchOperation).op}"`);
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new PluginStatePatchError(
+        `Patch operation ${index} (${operation.op} ${operation.path}) is invalid: ${reason}`,
+        index
+      );
+    }
+  });
+
+  return result;
+};
@@ -0,0 +1,216 @@
+import {
+  InferState,
+  PluginStateConfig,
+  PluginStateService,
+  StateFieldError,
+  StateFieldSchema,
+  StateSchema,
+  StateValidationResult
+} from '../types';
+
+/**
+ * Get the schema type name for a value
+ */
+export const getSchemaType = (value: any): string => {
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+};
+
+/**
+ * Check whether a value is a plain object (not null and not an array)
+ */
+export const isPlainObject = (value: any): value is { [key: string]: any } => {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+};
+
+/**
+ * Copy a JSON-compatible value so schema defaults are never shared between states
+ */
+const cloneDefault = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Join a parent path and a child key or index into a dot-separated path
+ */
+export const joinPath = (parent: string, key: string | number): string => {
+  return parent ? `${parent}.${key}` : String(key);
+};
+
+/**
+ * Check a single value against its field schema, recursing into properties and items
+ */
+const validateField = (value: any, field: StateFieldSchema, path: string, errors: StateFieldError[]): void => {
+  if (value === undefined || value === null) {
+    if (field.required) {
+      errors.push({ path, rule: 'required', message: `"${path}" is required` });
+    }
+    return;
+  }
+
+  const actualType = getSchemaType(value);
+  if (actualType !== field.type) {
+    errors.push({ path, rule: 'type', message: `"${path}" must be of type ${field.type} (got ${actualType})` });
+    return;
+  }
+
+  if (field.enum && !field.enum.some(allowed => allowed === value)) {
+    errors.push({
+      path,
+      rule: 'enum',
+      message: `"${path}" must be one of ${field.enum.map(allowed => JSON.stringify(allowed)).join(', ')}`
+    });
+  }
+
+  if (field.type === 'number') {
+    if (field.min !== undefined && value < field.min) {
+      errors.push({ path, rule: 'min', message: `"${path}" must be at least ${field.min}` });
+    }
+    if (field.max !== undefined && value > field.max) {
+      errors.push({ path, rule: 'max', message: `"${path}" must be at most ${field.max}` });
+    }
+  }
+
+  if ((field.type === 'string' || field.type === 'array') && field.maxLength !== undefined && value.length > field.maxLength) {
+    errors.push({
+      path,
+      rule: 'maxLength',
+      message: `"${path}" exceeds maximum length of ${field.maxLength}`
+    });
+  }
+
+  if (field.type === 'string' && field.pattern !== undefined) {
+    const pattern = typeof field.pattern === 'string' ? new RegExp(field.pattern) : field.pattern;
+    if (!pattern.test(value)) {
+      errors.push({ path, rule: 'pattern', message: `"${path}" does not match pattern ${pattern}` });
+    }
+  }
+
+  if (field.type === 'object' && field.properties) {
+    validateProperties(value, field.properties, path, errors);
+  }
+
+  if (field.type === 'array' && field.items) {
+    const itemSchema = field.items;
+    (value as any[]).forEach((item, index) => validateField(item, itemSchema, joinPath(path, index), errors));
+  }
+};
+
+/**
+ * Check every key described by a properties map
+ */
+const validateProperties = (
+  value: { [key: string]: any },
+  properties: { [key: string]: StateFieldSchema },
+  path: string,
+  errors: StateFieldError[]
+): void => {
+  Object.keys(properties).forEach(key => {
+    validateField(value[key], properties[key], joinPath(path, key), errors);
+  });
+};
+
+/**
+ * Validate a state object against a schema, collecting every field error
+ */
+export const validateAgainstSchema = (state: any, schema: StateSchema = {}): StateValidationResult => {
+  if (!isPlainObject(state)) {
+    return {
+      valid: false,
+      errors: [{ path: '', rule: 'type', message: `State must be an object (got ${getSchemaType(state)})` }]
+    };
+  }
+
+  const errors: StateFieldError[] = [];
+  validateProperties(state, schema, '', errors);
+
+  return { valid: errors.length === 0, errors };
+};
+
+/**
+ * Fill missing values with schema defaults, recursing into nested objects and arrays
+ */
+const applyFieldDefaults = (value: any, field: StateFieldSchema): any => {
+  if ((value === undefined || value === null) && field.default !== undefined) {
+    value = cloneDefault(field.default);
+  }
+
+  if (field.properties && isPlainObject(value)) {
+    return applyPropertyDefaults(value, field.properties);
+  }
+
+  if (field.items && Array.isArray(value)) {
+    const itemSchema = field.items;
+    return value.map(item => applyFieldDefaults(item, itemSchema));
+  }
+
+  return value;
+};
+
+/**
+ * Fill defaults for every key of a properties map, keeping keys the map does not describe
+ */
+const applyPropertyDefaults = (
+  value: { [key: string]: any },
+  properties: { [key: string]: StateFieldSchema }
+): { [key: string]: any } => {
+  const result: { [key: string]: any } = { ...value };
+
+  Object.keys(properties).forEach(key => {
+    const filled = applyFieldDefaults(result[key], properties[key]);
+    if (filled !== undefined) {
+      result[key] = filled;
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Sanitize a state object for a configuration
+ *
+ * Keys not listed in preserveKeys are dropped (an empty list keeps every key) and
+ * missing values are filled in from their schema defaults, including nested properties.
+ */
+export const sanitizeForConfig = (state: any, config: Pick<PluginStateConfig, 'preserveKeys' | 'stateSchema'>): any => {
+  if (!isPlainObject(state)) {
+    return state;
+  }
+
+  const preserveKeys = config.preserveKeys || [];
+  const preserved: { [key: string]: any } = {};
+
+  Object.keys(state).forEach(key => {
+    if (preserveKeys.length === 0 || preserveKeys.indexOf(key) !== -1) {
+      preserved[key] = state[key];
+    }
+  });
+
+  return applyPropertyDefaults(preserved, config.stateSchema || {});
+};
+
+/**
+ * Format validation errors into a single readable message
+ */
+export const formatValidationErrors = (errors: StateFieldError[]): string => {
+  return errors.map(error => error.message).join(', ');
+};
+
+/**
+ * Declare a schema with its literal types preserved, so InferState can derive the state shape
+ */
+export const defineStateSchema = <const S extends StateSchema>(schema: S): S => schema;
+
+/**
+ * Configure a service and return it typed by the state shape inferred from the schema
+ */
+export const configureTypedPluginState = <const S extends StateSchema>(
+  service: PluginStateService,
+  config: Omit<PluginStateConfig, 'preserveKeys' | 'stateSchema'> & {
+    preserveKeys: Array<Extract<keyof S, string>>;
+    stateSchema: S;
+  }
+): PluginStateService<InferState<S>> => {
+  service.configure(config);
+  return service;
+};
@@ -0,0 +1,173 @@
+import { PluginStateConfig, StateStorageAdapter } from '../types';
+
+/**
+ * In-memory adapter used for tests, server rendering and as a fallback when browser storage
+ * is unavailable. State lives only as long as the adapter instance.
+ */
+export class MemoryStorageAdapter implements StateStorageAdapter {
+  readonly name = 'memory';
+  private entries: { [key: string]: string } = {};
+
+  async getItem(key: string): Promise<string | null> {
+    return Object.prototype.hasOwnProperty.call(this.entries, key) ? this.entries[key] : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.entries[key] = value;
+  }
+
+  async removeItem(key: string): Promise<void> {
+    delete this.entries[key];
+  }
+
+  async keys(): Promise<string[]> {
+    return Object.keys(this.entries);
+  }
+}
+
+/**
+ * Adapter over a Web Storage area (sessionStorage or localStorage)
+ */
+export class WebStorageAdapter implements StateStorageAdapter {
+  readonly name: string;
+  private storage: Storage;
+
+  constructor(storage: Storage, name: string) {
+    this.storage = storage;
+    this.name = name;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.storage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.storage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.storage.removeItem(key);
+  }
+
+  async keys(): Promise<string[]> {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key !== null) keys.push(key);
+    }
+    return keys;
+  }
+}
+
+/**
+ * Adapter over an IndexedDB object store, suited to states too large for Web Storage
+ */
+export class IndexedDBStorageAdapter implements StateStorageAdapter {
+  readonly name = 'indexeddb';
+  private databaseName: string;
+  private storeName: string;
+  private databasePromise: Promise<IDBDatabase> | null = null;
+
+  constructor(databaseName: string = 'braindrive-plugin-state', storeName: string = 'states') {
+    this.databaseName = databaseName;
+    this.storeName = storeName;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.request<any>('readonly', store => store.get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.request('readwrite', store => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.request<IDBValidKey[]>('readonly', store => store.getAllKeys());
+    return keys.map(key => String(key));
+  }
+
+  /**
+   * Open the database once, creating the object store on first use
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.databasePromise) {
+      this.databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB storage not available in this environment'));
+          return;
+        }
+
+        const openRequest = indexedDB.open(this.databaseName, 1);
+        openRequest.onupgradeneeded = () => {
+          if (!openRequest.result.objectStoreNames.contains(this.storeName)) {
+            openRequest.result.createObjectStore(this.storeName);
+          }
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => reject(openRequest.error || new Error('Failed to open IndexedDB database'));
+      });
+
+      // Allow a later call to retry after a failed open
+      this.databasePromise.catch(() => {
+        this.databasePromise = null;
+      });
+    }
+    return this.databasePromise;
+  }
+
+  /**
+   * Run a single request in its own transaction
+   *
+   * Writes settle once the transaction commits, so a write the transaction aborts at commit
+   * (e.g. with QuotaExceededError) is reported as a failure.
+   */
+  private async request<R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<R> {
+    const database = await this.openDatabase();
+    return new Promise<R>((resolve, reject) => {
+      const transaction = database.transaction(this.storeName, mode);
+      const request = run(transaction.objectStore(this.storeName));
+      const fail = () => reject(request.error || transaction.error || new Error('IndexedDB request failed'));
+
+      if (mode === 'readonly') {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = fail;
+        return;
+      }
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = fail;
+      transaction.onabort = fail;
+    });
+  }
+}
+
+/**
+ * Get a Web Storage area, or null when it is missing or blocked by the browser
+ */
+const getWebStorage = (area: 'sessionStorage' | 'localStorage'): Storage | null => {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  try {
+    return window[area] || null;
+  } catch (error) {
+    console.warn(`[storageAdapters] ${area} unavailable:`, error);
+    return null;
+  }
+};
+
+/**
+ * Create the built-in adapter for a state strategy, falling back to memory when the
+ * matching browser storage is unavailable
+ */
+export const createStrategyAdapter = (strategy: PluginStateConfig['stateStrategy']): StateStorageAdapter => {
+  const area = strategy === 'persistent' ? 'localStorage' : 'sessionStorage';
+  const storage = getWebStorage(area);
+  return storage ? new WebStorageAdapter(storage, area) : new MemoryStorageAdapter();
+};
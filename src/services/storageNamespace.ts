@@ -0,0 +1,69 @@
+import { StateStorageAdapter } from '../types';
+
+// Prefix for every storage entry written by the standalone service
+export const STORAGE_KEY_PREFIX = 'braindrive-plugin-state';
+
+/**
+ * Check that a plugin id can name a storage namespace: ":" separates the parts of a storage
+ * key, so an id containing it (e.g. "a:module:x") would reach into another plugin's entries
+ */
+export const isValidPluginId = (pluginId: string): boolean => pluginId.indexOf(':') === -1;
+
+/**
+ * Root of the storage namespace owned by a plugin; every entry of the plugin starts with it
+ */
+export const getPluginNamespace = (pluginId: string): string => `${STORAGE_KEY_PREFIX}:${pluginId}`;
+
+/**
+ * Storage key of the queue of failed saves for one state scope (plugin, module and instance),
+ * given the scope's state key; kept outside the plugin's namespace so the queue does not count
+ * against the plugin's quota, and separate per scope so instances never overwrite each other's
+ * queued saves
+ */
+export const getSaveQueueKey = (stateKey: string): string =>
+  `${STORAGE_KEY_PREFIX}-queue${stateKey.substring(STORAGE_KEY_PREFIX.length)}`;
+
+/**
+ * Check whether a storage key belongs to a plugin's namespace
+ */
+export const isPluginStorageKey = (key: string, pluginId: string): boolean => {
+  const namespace = getPluginNamespace(pluginId);
+  return key === namespace || key.indexOf(`${namespace}:`) === 0;
+};
+
+/**
+ * Get the plugin id a storage key belongs to, or null for keys outside the service's namespace
+ * (plugin ids cannot contain ":", see isValidPluginId)
+ */
+export const getPluginIdFromStorageKey = (key: string): string | null => {
+  if (key.indexOf(`${STORAGE_KEY_PREFIX}:`) !== 0) {
+    return null;
+  }
+
+  const pluginId = key.substring(STORAGE_KEY_PREFIX.length + 1).split(':')[0];
+  return pluginId || null;
+};
+
+/**
+ * Space an entry takes in storage, counting the key as Web Storage quotas do
+ */
+export const getEntrySize = (key: string, value: string): number => key.length + value.length;
+
+/**
+ * Count the entries and bytes a plugin holds in one adapter
+ */
+export const measurePluginUsage = async (
+  adapter: StateStorageAdapter,
+  pluginId: string
+): Promise<{ entries: number; bytes: number }> => {
+  const keys = (await adapter.keys()).filter(key => isPluginStorageKey(key, pluginId));
+
+  let bytes = 0;
+  for (const key of keys) {
+    const value = await adapter.getItem(key);
+    if (value !== null) {
+      bytes += getEntrySize(key, value);
+    }
+  }
+  return { entries: keys.length, bytes };
+};
@@ -1,30 +1,318 @@
-// PluginState Service Interface
-export interface PluginStateService {
-  configure(config: PluginStateConfig): void;
-  getConfiguration(): PluginStateConfig | null;
-  saveState(state: any): Promise<void>;
-  getState(): Promise<any>;
+// PluginState Service Interface (typed by the plugin's state shape)
+export interface PluginStateService<T = any> {
+  configure(config: PluginStateConfig<T>): void;
+  getConfiguration(): PluginStateConfig<T> | null;
+  saveState(state: T, options?: SaveStateOptions): Promise<void>;
+  updateState(partial: DeepPartial<T>, options?: SaveStateOptions): Promise<T>;
+  applyPatch(operations: JsonPatchOperation[], options?: SaveStateOptions): Promise<T>;
+  getState(): Promise<T | null>;
+  getStateSize(): Promise<StateSizeInfo | null>;
+  getRevision(): number | null;
+  getPersistedState(): T | null;
+  isDirty(state: T): boolean;
+  diffState(state: T): StateDiffEntry[];
   clearState(): Promise<void>;
-  validateState(state: any): boolean;
-  sanitizeState(state: any): any;
-  onSave(callback: (state: any) => void): () => void;
-  onRestore(callback: (state: any) => void): () => void;
+  getPendingSaveCount(): number;
+  retryPendingSaves(): Promise<void>;
+  validateState(state: any): StateValidationResult;
+  sanitizeState(state: any): T;
+  onSave(callback: (state: T, changedPaths: string[]) => void): () => void;
+  onRestore(callback: (state: T) => void): () => void;
   onClear(callback: () => void): () => void;
+  onExternalChange(callback: (change: ExternalStateChange<T>) => void): () => void;
+  onExpire(callback: (expiredPaths: string[], state: T) => void): () => void;
+  onPendingSavesChange(callback: (count: number) => void): () => void;
+  subscribe(path: string, callback: (next: any, previous: any) => void): () => void;
+  beforeSave(hook: StateInterceptor<T>): () => void;
+  beforeRestore(hook: StateInterceptor<T>): () => void;
+  use(middleware: StateMiddleware<T>): () => void;
+  onError(callback: (event: PluginStateErrorEvent) => void): () => void;
+  onValidationFailed(callback: (failure: StateValidationFailure) => void): () => void;
+  createCheckpoint(name: string, state: T): Promise<StateCheckpoint>;
+  listCheckpoints(): Promise<StateCheckpoint[]>;
+  restoreCheckpoint(id: string): Promise<T>;
+  renameCheckpoint(id: string, name: string): Promise<StateCheckpoint>;
+  deleteCheckpoint(id: string): Promise<void>;
+  exportState(): Promise<PluginStateExport<T>>;
+  previewImport(file: string | PluginStateExport): Promise<StateImportPreview<T>>;
+  importState(file: string | PluginStateExport): Promise<T>;
+}
+
+// Named snapshot of a plugin's state, stored next to the current state
+export interface StateCheckpoint {
+  id: string;
+  name: string;
+  createdAt: string;
+  // Serialized size of the checkpoint's state (in bytes)
+  size: number;
+}
+
+// One difference between the persisted state and another state
+export interface StateDiffEntry {
+  // Dot-separated path of the field, e.g. 'demoData.counter'
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  // Persisted value (absent for 'added')
+  previous?: any;
+  // Value in the compared state (absent for 'removed')
+  next?: any;
+}
+
+// Portable copy of a plugin's state, as written to an export file
+export interface PluginStateExport<T = any> {
+  // Always 'braindrive-plugin-state'
+  format: string;
+  // Version of this envelope's layout
+  formatVersion: number;
+  pluginId: string;
+  // schemaVersion of the configuration the data was exported with
+  schemaVersion: number;
+  exportedAt: string;
+  data: T;
+}
+
+// An export file read for import, shown to the user before it replaces the current state
+export interface StateImportPreview<T = any> {
+  file: PluginStateExport;
+  // File data migrated to the current schema version, with defaults filled in
+  state: T;
+  // Result of validating state against the stateSchema; importState rejects invalid states
+  validation: StateValidationResult;
+  // Paths of the current state the import would change
+  changedPaths: string[];
+}
+
+// Size of the stored state before and after compression (in bytes)
+export interface StateSizeInfo {
+  // Length of the state serialized as JSON
+  rawSize: number;
+  // Length of what is actually written to storage (the compressed payload when compression is on)
+  storedSize: number;
+  compressed: boolean;
+}
+
+// Storage held by one plugin, as reported by the registry's admin API
+export interface PluginStateUsage {
+  pluginId: string;
+  // Number of storage entries (states, shared keys, checkpoints)
+  entries: number;
+  // Total size of those entries (in bytes)
+  bytes: number;
+  // Storage quota for the plugin (null when unlimited)
+  quota: number | null;
+}
+
+// Recursive partial used by updateState (arrays are replaced, not merged)
+export type DeepPartial<T> = T extends readonly any[]
+  ? T
+  : T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T;
+
+// RFC 6902 JSON Patch operation
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: any; from?: undefined }
+  | { op: 'remove'; path: string; value?: undefined; from?: undefined }
+  | { op: 'replace'; path: string; value: any; from?: undefined }
+  | { op: 'move'; path: string; from: string; value?: undefined }
+  | { op: 'copy'; path: string; from: string; value?: undefined }
+  | { op: 'test'; path: string; value: any; from?: undefined };
+
+// State saved or cleared by another tab running the same plugin
+export interface ExternalStateChange<T = any> {
+  type: 'save' | 'clear';
+  // Incoming state (null when the other tab cleared it)
+  state: T | null;
+  savedAt: string;
+  // Revision of the stored state after the change (0 after a clear)
+  revision: number;
+}
+
+// Hook run before a save or restore: return a replacement state, nothing to keep the state as
+// it is, or false to cancel the operation
+export type StateInterceptor<T = any> = (state: T) => T | false | void | Promise<T | false | void>;
+
+// Passed to every state middleware step
+export interface StateMiddlewareContext {
+  pluginId: string;
+  // Service method being run, e.g. 'saveState' or 'getState'
+  operation: string;
+}
+
+// Step of the persistence pipeline; each function returns the state handed to the next step
+export interface StateMiddleware<T = any> {
+  // Shown in warnings and logs
+  name: string;
+  // On the way to storage, in registration order (throw to reject the save)
+  save?: (state: T, context: StateMiddlewareContext) => T | Promise<T>;
+  // On the way back from storage, in reverse registration order
+  restore?: (state: T, context: StateMiddlewareContext) => T | Promise<T>;
+}
+
+// Details of a failed service operation, passed to onError
+export interface PluginStateErrorEvent {
+  // Service method that failed, e.g. 'saveState'
+  operation: string;
+  error: Error;
+  // Error class name, e.g. 'PluginStateValidationError'
+  name: string;
+  // True when the operation may succeed later (queued saves are retried automatically)
+  retryable: boolean;
+  timestamp: string;
+}
+
+// Details of a state rejected by the stateSchema, passed to onValidationFailed
+export interface StateValidationFailure {
+  operation: string;
+  errors: StateFieldError[];
+  timestamp: string;
+}
+
+// Options for saveState, updateState and applyPatch
+export interface SaveStateOptions {
+  // Reject the save with PluginStateConflictError unless the stored state is at this revision
+  expectedRevision?: number;
 }
 
 // PluginState Configuration
-export interface PluginStateConfig {
+export interface PluginStateConfig<T = any> {
   pluginId: string;
+  // Module and instance the state belongs to; each combination keeps its own state
+  moduleId?: string;
+  instanceId?: string;
   stateStrategy: 'session' | 'persistent';
-  preserveKeys: string[];
-  stateSchema?: {
-    [key: string]: {
-      type: 'string' | 'number' | 'boolean' | 'object' | 'array';
-      required: boolean;
-      default?: any;
-    };
-  };
+  preserveKeys: Array<Extract<keyof T, string>>;
+  // Top-level keys stored once per plugin and shared by all of its modules and instances
+  sharedKeys?: Array<Extract<keyof T, string>>;
+  stateSchema?: IsAny<T> extends true ? StateSchema : StateSchemaFor<T>;
+  // Limit on the stored size: the compressed size when compression is enabled
   maxStateSize?: number;
+  // Compress the serialized state before it is stored (defaults to false)
+  compression?: boolean;
+  // Top-level keys encrypted with AES-GCM before they reach storage
+  encryptedKeys?: Array<Extract<keyof T, string>>;
+  // Source of the encryption key; overrides the provider given to the service
+  keyProvider?: StateKeyProvider;
+  // Custom storage backend; overrides the adapter picked from stateStrategy
+  storageAdapter?: StateStorageAdapter;
+  // Version of the state shape described by stateSchema (defaults to 1)
+  schemaVersion?: number;
+  // Steps that upgrade states saved under older schema versions
+  migrations?: StateMigration[];
+  // Broadcast saves to other tabs and report theirs through onExternalChange (defaults to true
+  // for 'persistent' and false for 'session', whose storage other tabs cannot read)
+  syncAcrossTabs?: boolean;
+  // Time-to-live (in ms) for top-level keys whose schema sets no ttl
+  defaultTtl?: number;
+}
+
+// Async key-value backend the PluginState service persists serialized state into
+export interface StateStorageAdapter {
+  readonly name: string;
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+// Supplies the AES-GCM key protecting a plugin's encryptedKeys
+export interface StateKeyProvider {
+  getKey(pluginId: string): Promise<CryptoKey>;
+}
+
+// Upgrades a stored state from one schema version to a newer one
+export interface StateMigration {
+  from: number;
+  to: number;
+  migrate(state: any): any | Promise<any>;
+}
+
+// Schema for a single state field (nested through properties and items)
+export interface StateFieldSchema {
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  required?: boolean;
+  default?: any;
+  // Object fields: schemas for nested keys
+  properties?: { [key: string]: StateFieldSchema };
+  // Array fields: schema applied to every item
+  items?: StateFieldSchema;
+  // Allowed values for the field
+  enum?: readonly any[];
+  // Number fields: inclusive bounds
+  min?: number;
+  max?: number;
+  // String and array fields: maximum length
+  maxLength?: number;
+  // String fields: regular expression the value must match
+  pattern?: string | RegExp;
+  // Time (in ms) the value is kept after it last changed; null never expires, even with a defaultTtl
+  ttl?: number | null;
+}
+
+// Schema describing the top-level keys of a plugin's state
+export interface StateSchema {
+  [key: string]: StateFieldSchema;
+}
+
+// True when T is `any` (untyped services accept any schema)
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+// Schema type name describing a TypeScript value type
+export type StateSchemaTypeName<V> =
+  V extends string ? 'string'
+  : V extends number ? 'number'
+  : V extends boolean ? 'boolean'
+  : V extends readonly any[] ? 'array'
+  : V extends object ? 'object'
+  : never;
+
+// Field schema that must agree with the value type V
+export type StateFieldSchemaFor<V> = Omit<StateFieldSchema, 'type' | 'default' | 'properties' | 'items'> & {
+  type: StateSchemaTypeName<NonNullable<V>>;
+  default?: V;
+  properties?: NonNullable<V> extends readonly any[]
+    ? never
+    : NonNullable<V> extends object ? StateSchemaFor<NonNullable<V>> : never;
+  items?: NonNullable<V> extends readonly (infer I)[] ? StateFieldSchemaFor<I> : never;
+};
+
+// Schema that describes every key of the state shape T
+export type StateSchemaFor<T> = {
+  [K in keyof T]-?: StateFieldSchemaFor<T[K]>;
+};
+
+// Value type described by a single field schema
+export type InferFieldValue<F> =
+  F extends { enum: readonly (infer E)[] } ? E
+  : F extends { type: 'string' } ? string
+  : F extends { type: 'number' } ? number
+  : F extends { type: 'boolean' } ? boolean
+  : F extends { type: 'array' } ? (F extends { items: infer I } ? InferFieldValue<I>[] : any[])
+  : F extends { type: 'object' } ? (F extends { properties: infer P } ? InferState<P> : { [key: string]: any })
+  : unknown;
+
+// Keys that are always present after sanitizing: required or backed by a default
+type DefinedKeys<S> = {
+  [K in keyof S]: S[K] extends { required: true } | { default: any } ? K : never;
+}[keyof S];
+
+// State shape described by a schema
+export type InferState<S> = Simplify<
+  { [K in DefinedKeys<S>]: InferFieldValue<S[K]> } &
+  { [K in Exclude<keyof S, DefinedKeys<S>>]?: InferFieldValue<S[K]> }
+>;
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+// A single schema violation, addressed by its path in the state object
+export interface StateFieldError {
+  path: string;
+  rule: 'required' | 'type' | 'enum' | 'min' | 'max' | 'maxLength' | 'pattern';
+  message: string;
+}
+
+// Result of validating a state object against its schema
+export interface StateValidationResult {
+  valid: boolean;
+  errors: StateFieldError[];
 }
 
 // Services interface - focused only on PluginState